@@ -0,0 +1,130 @@
+// src/cli/buildKnowledgePack.ts
+import fs from "node:fs";
+import path from "node:path";
+
+import { KB_REL_PATH, parseKnowledgePack, readKnowledgePackFile } from "../lib/knowledgePack";
+import { knowledgeFromMarkdown, nextKnowledgeVersion, type MarkdownDoc } from "../lib/markdownKnowledge";
+
+/**
+ * Build a KnowledgePack from a folder of Markdown docs.
+ *
+ *   npm run kb:build -- <docs-dir> [--out src/project_kb.json] [--source "Urano docs"] [--version X] [--dry-run]
+ *
+ * The version is bumped from the pack currently at --out unless --version is given.
+ * The running server picks the new file up via POST /admin/knowledge-pack/reload.
+ */
+
+type CliArgs = Readonly<{
+  docsDir: string;
+  out: string;
+  source?: string;
+  version?: string;
+  dryRun: boolean;
+}>;
+
+function usage(): never {
+  console.error(
+    "Usage: kb:build <docs-dir> [--out <file>] [--source <name>] [--version <version>] [--dry-run]"
+  );
+  process.exit(2);
+}
+
+function parseArgs(argv: readonly string[]): CliArgs {
+  let docsDir: string | undefined;
+  let out = KB_REL_PATH;
+  let source: string | undefined;
+  let version: string | undefined;
+  let dryRun = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    const value = (): string => {
+      const v = argv[++i];
+      if (!v) usage();
+      return v;
+    };
+
+    if (a === "--out") out = value();
+    else if (a === "--source") source = value();
+    else if (a === "--version") version = value();
+    else if (a === "--dry-run") dryRun = true;
+    else if (a.startsWith("--") || docsDir) usage();
+    else docsDir = a;
+  }
+
+  if (!docsDir) usage();
+
+  return {
+    docsDir: path.resolve(docsDir),
+    out: path.resolve(out),
+    ...(source ? { source } : {}),
+    ...(version ? { version } : {}),
+    dryRun,
+  };
+}
+
+function readMarkdownDocs(dir: string): MarkdownDoc[] {
+  const files: string[] = [];
+
+  const walk = (d: string): void => {
+    for (const entry of fs.readdirSync(d, { withFileTypes: true })) {
+      if (entry.name.startsWith(".")) continue;
+      const abs = path.join(d, entry.name);
+      if (entry.isDirectory()) walk(abs);
+      else if (/\.(md|mdx|markdown)$/i.test(entry.name)) files.push(abs);
+    }
+  };
+  walk(dir);
+
+  // Stable order: numbered docs (01-intro.md) sort naturally
+  files.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  return files.map((f) => ({ name: path.basename(f), content: fs.readFileSync(f, "utf8") }));
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!fs.existsSync(args.docsDir) || !fs.statSync(args.docsDir).isDirectory()) {
+    console.error(`Not a directory: ${args.docsDir}`);
+    process.exit(1);
+  }
+
+  const docs = readMarkdownDocs(args.docsDir);
+  if (docs.length === 0) {
+    console.error(`No Markdown files found in ${args.docsDir}`);
+    process.exit(1);
+  }
+
+  const previous = fs.existsSync(args.out) ? readKnowledgePackFile(args.out) : null;
+  const previousPack = previous?.ok ? previous.pack : null;
+  const today = new Date().toISOString().slice(0, 10);
+
+  const result = parseKnowledgePack({
+    source: args.source ?? previousPack?.source ?? path.basename(args.docsDir),
+    version: args.version ?? nextKnowledgeVersion(previousPack?.version ?? null, today),
+    generatedFrom: `markdown:${path.relative(process.cwd(), args.docsDir) || "."}`,
+    ...knowledgeFromMarkdown(docs),
+  });
+
+  if (!result.ok) {
+    console.error(`Generated knowledge pack is invalid (${result.error}):`);
+    for (const issue of result.issues ?? []) console.error(`  - ${issue}`);
+    process.exit(1);
+  }
+
+  const pack = result.pack;
+  console.log(
+    `${docs.length} file(s) -> ${pack.sections.length} sections, ${pack.glossary.length} glossary, ` +
+      `${pack.faq.length} FAQ (version ${previousPack?.version ?? "none"} -> ${pack.version})`
+  );
+
+  if (args.dryRun) return;
+
+  const tmp = `${args.out}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, `${JSON.stringify(pack, null, 2)}\n`, "utf8");
+  fs.renameSync(tmp, args.out);
+  console.log(`Wrote ${path.relative(process.cwd(), args.out)}`);
+}
+
+main();
@@ -2,12 +2,30 @@
 import { z } from "zod";
 import type { Address } from "viem";
 
+import type { UShareInfo } from "../lib/chainReads";
+
+/**
+ * uShare offerings as the rest of the backend sees them. The live list comes from
+ * the registry (src/lib/uShareRegistry.ts), which merges USHARE_OFFERINGS_JSON with
+ * offerings discovered on-chain; this module holds the env format and text matching.
+ */
 export type UShareOffering = Readonly<{
   name: string;
   symbol: string;
   uShareId: `0x${string}`; // bytes32
   uShareToken: Address;
   decimals?: number; // only set when known
+  source: "env" | "factory"; // "env" when listed in USHARE_OFFERINGS_JSON (possibly also on-chain)
+  info?: UShareInfo; // getuShareInfo at the last registry refresh
+}>;
+
+/** Env entry: only uShareId is required, the rest is read on-chain when missing. */
+export type UShareOfferingConfig = Readonly<{
+  uShareId: `0x${string}`;
+  name?: string;
+  symbol?: string;
+  uShareToken?: Address;
+  decimals?: number;
 }>;
 
 export type UShareSelection = Readonly<{
@@ -26,7 +44,7 @@ const Bytes32Schema = z
   .regex(/^0x[a-fA-F0-9]{64}$/, "Invalid bytes32")
   .transform((s) => s as `0x${string}`);
 
-function decimalStringToBytes32(dec: string): `0x${string}` {
+export function decimalStringToBytes32(dec: string): `0x${string}` {
   const n = BigInt(dec);
   if (n < 0n) throw new Error("uShareId decimal must be >= 0");
   const hex = n.toString(16);
@@ -35,10 +53,7 @@ function decimalStringToBytes32(dec: string): `0x${string}` {
 }
 
 const OfferingSchema = z.object({
-  name: z.string().min(1),
-  symbol: z.string().min(1),
-
-  // Accept bytes32 hex OR decimal string; normalize into bytes32 hex
+  // Accept bytes32 hex OR decimal string (as deploy scripts log it); normalize into bytes32 hex
   uShareId: z.union([
     Bytes32Schema,
     z
@@ -47,17 +62,19 @@ const OfferingSchema = z.object({
       .transform((s) => decimalStringToBytes32(s)),
   ]),
 
-  uShareToken: AddressSchema,
+  name: z.string().trim().min(1).max(80).optional(),
+  symbol: z.string().trim().min(1).max(20).optional(),
+  uShareToken: AddressSchema.optional(),
   decimals: z.number().int().positive().max(255).optional(),
 });
 
 const OfferingsSchema = z.array(OfferingSchema).max(100);
 
 /**
- * Provide offerings via env:
- *   USHARE_OFFERINGS_JSON='[{"name":"Default uShare","symbol":"USHARE","uShareId":"8848...","uShareToken":"0x...","decimals":18}]'
+ * Offerings listed via env (curated names win over on-chain metadata):
+ *   USHARE_OFFERINGS_JSON='[{"name":"Milano Condo","symbol":"MILANO","uShareId":"8848..."}]'
  */
-export function getUShareOfferings(): readonly UShareOffering[] {
+export function parseOfferingsEnv(): readonly UShareOfferingConfig[] {
   const raw = (process.env.USHARE_OFFERINGS_JSON ?? "").trim();
   if (!raw) return [];
 
@@ -75,16 +92,14 @@ export function getUShareOfferings(): readonly UShareOffering[] {
     throw new Error(`Invalid USHARE_OFFERINGS_JSON schema: ${issues}`);
   }
 
-  // exactOptionalPropertyTypes-safe mapping: never set decimals when undefined.
-  return parsed.data.map((o) => {
-    const base: Omit<UShareOffering, "decimals"> = {
-      name: o.name,
-      symbol: o.symbol,
-      uShareId: o.uShareId,
-      uShareToken: o.uShareToken,
-    };
-    return typeof o.decimals === "number" ? { ...base, decimals: o.decimals } : base;
-  });
+  // exactOptionalPropertyTypes-safe mapping: never set optional keys when undefined.
+  return parsed.data.map((o) => ({
+    uShareId: o.uShareId,
+    ...(o.name ? { name: o.name } : {}),
+    ...(o.symbol ? { symbol: o.symbol } : {}),
+    ...(o.uShareToken ? { uShareToken: o.uShareToken } : {}),
+    ...(typeof o.decimals === "number" ? { decimals: o.decimals } : {}),
+  }));
 }
 
 export function findOfferingById(
@@ -100,38 +115,122 @@ export function extractBytes32FromText(text: string): `0x${string}` | null {
   return m ? (m[0] as `0x${string}`) : null;
 }
 
+export type UShareMatchReason = "BYTES32" | "TOKEN_ADDRESS" | "SYMBOL" | "NAME" | "NAME_WORDS" | "ONLY_OFFERING";
+
+export type UShareCandidate = Readonly<{
+  offering: UShareOffering;
+  reason: UShareMatchReason;
+  score: number;
+  confidence: number; // 0..1, relative to the other candidates
+}>;
+
+export type UShareResolution = Readonly<{
+  selection: UShareSelection; // id is null when nothing matched or the top candidates are too close
+  candidates: readonly UShareCandidate[]; // best first
+  ambiguous: boolean;
+}>;
+
+// Second-best at >= 80% of the best score counts as a near-tie
+const NEAR_TIE_RATIO = 0.8;
+// Score that counts as a confident match on its own (exact symbol)
+const STRONG_MATCH_SCORE = 10;
+
+// Words that say nothing about which uShare is meant
+const NAME_STOPWORDS = new Set(["the", "ushare", "ushares", "share", "shares", "token", "tokens"]);
+
+function words(s: string): string[] {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+}
+
+/** Whole-word phrase match, so "apt" doesn't match inside "adapter". */
+function hasPhrase(text: string, phrase: string): boolean {
+  return phrase !== "" && ` ${text} `.includes(` ${phrase} `);
+}
+
+function scoreOffering(
+  o: UShareOffering,
+  text: string,
+  msgWords: ReadonlySet<string>,
+  address: string | undefined
+): Readonly<{ score: number; reason: UShareMatchReason }> | null {
+  if (address && o.uShareToken.toLowerCase() === address) return { score: 100, reason: "TOKEN_ADDRESS" };
+  if (hasPhrase(text, words(o.symbol).join(" "))) return { score: STRONG_MATCH_SCORE, reason: "SYMBOL" };
+  if (hasPhrase(text, words(o.name).join(" "))) return { score: 8, reason: "NAME" };
+
+  // Partial name ("milano" for "Milano Condo"): share of the name's meaningful words present
+  const nameWords = words(o.name).filter((w) => w.length >= 3 && !NAME_STOPWORDS.has(w));
+  const shared = nameWords.filter((w) => msgWords.has(w)).length;
+  return shared > 0 ? { score: (6 * shared) / nameWords.length, reason: "NAME_WORDS" } : null;
+}
+
 /**
- * Resolve which uShare the user means based on the message.
- * - If they paste a bytes32, use it.
- * - Else if only one offering exists, default to it.
- * - Else match by symbol/name.
+ * Score every offering against the message.
+ * - a pasted bytes32 or uShare token address wins outright
+ * - whole-word symbol > full name > partial name words
+ * - a lone offering is the default when nothing matches
  */
-export function resolveUShareSelectionFromText(
+export function rankUShareCandidates(
   offerings: readonly UShareOffering[],
   userText: string
-): UShareSelection {
+): readonly UShareCandidate[] {
   const pasted = extractBytes32FromText(userText);
-  if (pasted) {
-    const found = findOfferingById(offerings, pasted);
-    if (found) return selectionFromOffering(found);
-    return { id: pasted };
+  const byId = pasted ? findOfferingById(offerings, pasted) : null;
+  if (byId) return [{ offering: byId, reason: "BYTES32", score: 100, confidence: 1 }];
+
+  const text = words(userText).join(" ");
+  const msgWords = new Set(text.split(" "));
+  const address = userText.match(/0x[a-fA-F0-9]{40}/)?.[0]?.toLowerCase();
+
+  const scored = offerings
+    .flatMap((offering) => {
+      const m = scoreOffering(offering, text, msgWords, address);
+      return m ? [{ offering, ...m }] : [];
+    })
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) {
+    return offerings.length === 1
+      ? [{ offering: offerings[0]!, reason: "ONLY_OFFERING", score: 0, confidence: 0.5 }]
+      : [];
   }
 
-  if (offerings.length === 1) {
-    return selectionFromOffering(offerings[0]!);
+  const total = scored.reduce((sum, c) => sum + c.score, 0);
+  return scored.map((c) => ({
+    ...c,
+    confidence: Math.round(Math.min(1, c.score / STRONG_MATCH_SCORE) * (c.score / total) * 100) / 100,
+  }));
+}
+
+export function resolveUShare(offerings: readonly UShareOffering[], userText: string): UShareResolution {
+  // A pasted id that isn't in the registry is still usable (the market is authoritative)
+  const pasted = extractBytes32FromText(userText);
+  if (pasted && !findOfferingById(offerings, pasted)) {
+    return { selection: { id: pasted }, candidates: [], ambiguous: false };
   }
 
-  const t = ` ${userText.trim().toLowerCase()} `;
-  for (const o of offerings) {
-    const sym = o.symbol.toLowerCase();
-    const nm = o.name.toLowerCase();
+  const candidates = rankUShareCandidates(offerings, userText);
+  const [top, second] = candidates;
+  if (!top) return { selection: { id: null }, candidates, ambiguous: false };
 
-    if (t.includes(` ${sym} `) || t.includes(` ${nm} `) || t.includes(sym) || t.includes(nm)) {
-      return selectionFromOffering(o);
-    }
-  }
+  const ambiguous = second !== undefined && second.score >= top.score * NEAR_TIE_RATIO;
+  return {
+    selection: ambiguous ? { id: null } : selectionFromOffering(top.offering),
+    candidates,
+    ambiguous,
+  };
+}
 
-  return { id: null };
+/** Best match, or `{ id: null }` when nothing matches or the top candidates are a near-tie. */
+export function resolveUShareSelectionFromText(
+  offerings: readonly UShareOffering[],
+  userText: string
+): UShareSelection {
+  return resolveUShare(offerings, userText).selection;
 }
 
 function selectionFromOffering(o: UShareOffering): UShareSelection {
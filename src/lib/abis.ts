@@ -0,0 +1,78 @@
+// src/lib/abis.ts
+import type { Abi } from "viem";
+
+// ABI JSONs (from explorer)
+import UranoTokenAbiJson from "../abi/UranoToken.json";
+import StakingAbiJson from "../abi/Staking.json";
+import UShareMarketAbiJson from "../abi/uShareMarket.json";
+import UShareFactoryAbiJson from "../abi/uShareFactory.json";
+import VestingAbiJson from "../abi/Vesting.json";
+import GovernanceAbiJson from "../abi/Governance.json";
+
+function extractAbi(json: unknown): Abi {
+  const j = json as any;
+  return (j?.abi ?? j) as Abi;
+}
+
+export const uranoTokenAbi = extractAbi(UranoTokenAbiJson);
+export const stakingAbi = extractAbi(StakingAbiJson);
+export const uShareMarketAbi = extractAbi(UShareMarketAbiJson);
+export const uShareFactoryAbi = extractAbi(UShareFactoryAbiJson);
+export const vestingAbi = extractAbi(VestingAbiJson);
+export const governanceAbi = extractAbi(GovernanceAbiJson);
+
+/**
+ * Minimal ERC20 fragment (approvals, allowance/balance reads and token metadata).
+ */
+export const erc20Abi = [
+  {
+    type: "function",
+    name: "approve",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "function",
+    name: "allowance",
+    stateMutability: "view",
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "balanceOf",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "decimals",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    type: "function",
+    name: "symbol",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+  },
+  {
+    type: "function",
+    name: "name",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+  },
+] as const;
+
+export const MAX_UINT256 = (1n << 256n) - 1n;
@@ -0,0 +1,17 @@
+// src/lib/addresses.ts
+import type { Address } from "viem";
+
+const ADDRESS_RE = /^0x[a-fA-F0-9]{40}$/;
+
+/** Address from an env var; null when unset or malformed (optional config). */
+export function optionalAddress(v: string | undefined): Address | null {
+  const s = (v ?? "").trim();
+  return ADDRESS_RE.test(s) ? (s as Address) : null;
+}
+
+/** Address from an env var the caller can't work without. */
+export function asAddress(v: string | undefined, name: string): Address {
+  const address = optionalAddress(v);
+  if (!address) throw new Error(`Missing/invalid ${name} address env var`);
+  return address;
+}
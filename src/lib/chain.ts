@@ -0,0 +1,27 @@
+// src/lib/chain.ts
+import { createPublicClient, defineChain, http } from "viem";
+import { env } from "./env";
+
+// Multicall3 is deployed at the same address on virtually every EVM chain.
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/**
+ * Chain definition built from env (RPC_URL / CHAIN_ID).
+ * We only need enough for read calls; the user's wallet does the signing.
+ */
+export const chain = defineChain({
+  id: env.CHAIN_ID,
+  name: `chain-${env.CHAIN_ID}`,
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: {
+    default: { http: [env.RPC_URL] },
+  },
+  contracts: {
+    multicall3: { address: MULTICALL3_ADDRESS },
+  },
+});
+
+export const publicClient = createPublicClient({
+  chain,
+  transport: http(env.RPC_URL),
+});
@@ -0,0 +1,248 @@
+// src/lib/chainReads.ts
+import type { Address } from "viem";
+
+import { publicClient } from "./chain";
+import {
+  erc20Abi,
+  governanceAbi,
+  stakingAbi,
+  uShareMarketAbi,
+  uranoTokenAbi,
+  vestingAbi,
+} from "./abis";
+
+/**
+ * Typed read helpers used by the planner / tx builder.
+ * The bundled ABIs are loaded as plain `Abi`, so results are cast to the
+ * shapes declared in the contract JSON.
+ */
+
+export type UShareInfo = Readonly<{
+  uShareToken: Address;
+  uShareAmount: bigint;
+  uShareSold: bigint;
+  uSharePrice: bigint;
+  status: number;
+  startTime: bigint;
+  minUranoAmountForPreSale: bigint;
+  snapshotBlock: bigint;
+  saleDuration: bigint;
+  amountOfUSDCProfits: bigint;
+  uStaking: Address;
+}>;
+
+export type StakingUserInfo = Readonly<{
+  stakedAmount: bigint;
+  rewardDebt: bigint;
+  rewardEarned: bigint;
+  stakingTimestamp: bigint;
+}>;
+
+export type GovernanceProposal = Readonly<{
+  id: bigint;
+  proposalType: number;
+  description: string;
+  startTime: bigint;
+  endTime: bigint;
+  votesFor: bigint;
+  votesAgainst: bigint;
+  finalized: boolean;
+  result: number;
+}>;
+
+export async function readErc20Balance(token: Address, account: Address): Promise<bigint> {
+  return publicClient.readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: [account],
+  });
+}
+
+export async function readErc20Allowance(
+  token: Address,
+  owner: Address,
+  spender: Address
+): Promise<bigint> {
+  return publicClient.readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [owner, spender],
+  });
+}
+
+export async function readUranoBalance(urano: Address, account: Address): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: urano,
+    abi: uranoTokenAbi,
+    functionName: "balanceOf",
+    args: [account],
+  })) as bigint;
+}
+
+export async function readAmountStaked(
+  staking: Address,
+  account: Address,
+  blockNumber?: bigint
+): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: staking,
+    abi: stakingAbi,
+    functionName: "amountStaked",
+    args: [account],
+    ...(blockNumber !== undefined ? { blockNumber } : {}),
+  })) as bigint;
+}
+
+export async function readStakingUserInfo(
+  staking: Address,
+  account: Address
+): Promise<StakingUserInfo> {
+  return (await publicClient.readContract({
+    address: staking,
+    abi: stakingAbi,
+    functionName: "userInfo",
+    args: [account],
+  })) as StakingUserInfo;
+}
+
+export async function readUShareInfo(market: Address, uShareId: `0x${string}`): Promise<UShareInfo> {
+  return (await publicClient.readContract({
+    address: market,
+    abi: uShareMarketAbi,
+    functionName: "getuShareInfo",
+    args: [uShareId],
+  })) as UShareInfo;
+}
+
+export async function readUShareDecimalPrecision(market: Address): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: market,
+    abi: uShareMarketAbi,
+    functionName: "USHARE_DECIMAL_PRECISION",
+    args: [],
+  })) as bigint;
+}
+
+export async function readPreSaleDuration(market: Address): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: market,
+    abi: uShareMarketAbi,
+    functionName: "PRE_SALE_DURATION",
+    args: [],
+  })) as bigint;
+}
+
+export async function readMinUShareAmountForOneUsdc(market: Address): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: market,
+    abi: uShareMarketAbi,
+    functionName: "i_minuShareAmountForOneUSDC",
+    args: [],
+  })) as bigint;
+}
+
+export async function readUsdcDecimals(market: Address): Promise<number> {
+  return Number(
+    await publicClient.readContract({
+      address: market,
+      abi: uShareMarketAbi,
+      functionName: "i_usdcDecimals",
+      args: [],
+    })
+  );
+}
+
+export async function readProposalCount(governance: Address): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: governance,
+    abi: governanceAbi,
+    functionName: "proposalCount",
+    args: [],
+  })) as bigint;
+}
+
+export async function readProposal(governance: Address, proposalId: bigint): Promise<GovernanceProposal> {
+  return (await publicClient.readContract({
+    address: governance,
+    abi: governanceAbi,
+    functionName: "getProposal",
+    args: [proposalId],
+  })) as GovernanceProposal;
+}
+
+export async function readVotes(urano: Address, account: Address): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: urano,
+    abi: uranoTokenAbi,
+    functionName: "getVotes",
+    args: [account],
+  })) as bigint;
+}
+
+export async function readDelegate(urano: Address, account: Address): Promise<Address> {
+  return (await publicClient.readContract({
+    address: urano,
+    abi: uranoTokenAbi,
+    functionName: "delegates",
+    args: [account],
+  })) as Address;
+}
+
+export async function readNonce(urano: Address, account: Address): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: urano,
+    abi: uranoTokenAbi,
+    functionName: "nonces",
+    args: [account],
+  })) as bigint;
+}
+
+export async function readVestingMerkleRoot(vesting: Address): Promise<`0x${string}`> {
+  return (await publicClient.readContract({
+    address: vesting,
+    abi: vestingAbi,
+    functionName: "merkleRoot",
+    args: [],
+  })) as `0x${string}`;
+}
+
+export type VestingDataTuple = Readonly<{
+  beneficiary: Address;
+  totalAmount: bigint;
+  cliffInSeconds: bigint;
+  vestingInSeconds: bigint;
+  tgePercentage: bigint;
+}>;
+
+export async function readVestingTgeTimestamp(vesting: Address): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: vesting,
+    abi: vestingAbi,
+    functionName: "tgeTimestamp",
+    args: [],
+  })) as bigint;
+}
+
+export async function readVestingClaimable(
+  vesting: Address,
+  data: VestingDataTuple,
+  merkleProof: readonly `0x${string}`[]
+): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: vesting,
+    abi: vestingAbi,
+    functionName: "claimable",
+    args: [data, merkleProof],
+  })) as bigint;
+}
+
+export async function readVestingTotalClaimed(vesting: Address, beneficiary: Address): Promise<bigint> {
+  return (await publicClient.readContract({
+    address: vesting,
+    abi: vestingAbi,
+    functionName: "totalClaimed",
+    args: [beneficiary],
+  })) as bigint;
+}
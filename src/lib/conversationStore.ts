@@ -0,0 +1,235 @@
+// src/lib/conversationStore.ts
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+
+import { env } from "./env";
+
+/**
+ * Server-side conversation sessions.
+ *
+ * Keeps the message history and every plan emitted in a conversation so the
+ * client only sends the new message, and follow-ups ("yes, do it",
+ * "make it 200 instead") can resolve against the previous plan.
+ *
+ * Backends (CONVERSATION_STORE):
+ * - "file" (default): one JSON file per conversation under CONVERSATIONS_DIR
+ * - "memory": process-local, lost on restart (dev/tests)
+ *
+ * Both backends expire idle conversations and drop the least recently updated
+ * ones past a size cap.
+ *
+ * Plans are stored as opaque JSON; the chat route re-validates them on read.
+ */
+
+export type StoredMessage = Readonly<{
+  role: "user" | "assistant";
+  content: string;
+  at: number;
+}>;
+
+export type StoredPlan = Readonly<{
+  at: number;
+  planned: unknown;
+  response: unknown;
+}>;
+
+export type Conversation = Readonly<{
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: readonly StoredMessage[];
+  plans: readonly StoredPlan[];
+}>;
+
+export type ConversationStore = Readonly<{
+  create: () => Promise<Conversation>;
+  get: (id: string) => Promise<Conversation | null>;
+  append: (
+    id: string,
+    entry: Readonly<{ messages: readonly StoredMessage[]; plan?: StoredPlan }>
+  ) => Promise<Conversation>;
+}>;
+
+const MAX_MESSAGES_KEPT = 200;
+const MAX_PLANS_KEPT = 20;
+
+const IDLE_TTL_MS = 24 * 60 * 60 * 1000;
+const MEMORY_MAX_CONVERSATIONS = 1_000;
+const FILE_MAX_CONVERSATIONS = 10_000;
+const FILE_PRUNE_INTERVAL_MS = 60_000;
+
+function isExpired(c: Conversation, now: number = Date.now()): boolean {
+  return now - c.updatedAt > IDLE_TTL_MS;
+}
+
+const UuidRe = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isConversationId(id: string): boolean {
+  return UuidRe.test(id);
+}
+
+function newConversation(): Conversation {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), createdAt: now, updatedAt: now, messages: [], plans: [] };
+}
+
+function appendTo(
+  c: Conversation,
+  entry: Readonly<{ messages: readonly StoredMessage[]; plan?: StoredPlan }>
+): Conversation {
+  return {
+    ...c,
+    updatedAt: Date.now(),
+    messages: [...c.messages, ...entry.messages].slice(-MAX_MESSAGES_KEPT),
+    plans: entry.plan ? [...c.plans, entry.plan].slice(-MAX_PLANS_KEPT) : c.plans,
+  };
+}
+
+export function createMemoryConversationStore(): ConversationStore {
+  // Insertion order = least recently updated first
+  const byId = new Map<string, Conversation>();
+
+  const live = (id: string): Conversation | null => {
+    const c = byId.get(id);
+    if (!c) return null;
+    if (isExpired(c)) {
+      byId.delete(id);
+      return null;
+    }
+    return c;
+  };
+
+  const put = (c: Conversation): void => {
+    byId.delete(c.id);
+    byId.set(c.id, c);
+    for (const oldest of byId.keys()) {
+      if (byId.size <= MEMORY_MAX_CONVERSATIONS) break;
+      byId.delete(oldest);
+    }
+  };
+
+  return {
+    create: async () => {
+      const c = newConversation();
+      put(c);
+      return c;
+    },
+    get: async (id) => live(id),
+    append: async (id, entry) => {
+      const c = live(id);
+      if (!c) throw new Error(`Unknown conversation: ${id}`);
+      const next = appendTo(c, entry);
+      put(next);
+      return next;
+    },
+  };
+}
+
+export function createFileConversationStore(dir: string): ConversationStore {
+  const fileFor = (id: string): string => {
+    if (!isConversationId(id)) throw new Error("Invalid conversation id");
+    return path.join(dir, `${id}.json`);
+  };
+
+  const write = async (c: Conversation): Promise<void> => {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const file = fileFor(c.id);
+    const tmp = `${file}.${crypto.randomUUID()}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(c), "utf8");
+    await fs.promises.rename(tmp, file);
+  };
+
+  const read = async (id: string): Promise<Conversation | null> => {
+    if (!isConversationId(id)) return null;
+    let c: Conversation;
+    try {
+      c = JSON.parse(await fs.promises.readFile(fileFor(id), "utf8")) as Conversation;
+    } catch {
+      return null;
+    }
+    if (isExpired(c)) {
+      await fs.promises.rm(fileFor(id), { force: true }).catch(() => undefined);
+      return null;
+    }
+    return c;
+  };
+
+  // Each write renames a fresh file into place, so mtime tracks updatedAt
+  const prune = async (): Promise<void> => {
+    const now = Date.now();
+    const files: Array<{ file: string; mtime: number }> = [];
+
+    for (const name of await fs.promises.readdir(dir)) {
+      const file = path.join(dir, name);
+      const stat = await fs.promises.stat(file).catch(() => null);
+      if (!stat?.isFile()) continue;
+
+      // Expired conversations, and tmp files left behind by a crash mid-write
+      if (now - stat.mtimeMs > IDLE_TTL_MS) {
+        await fs.promises.rm(file, { force: true });
+      } else if (name.endsWith(".json")) {
+        files.push({ file, mtime: stat.mtimeMs });
+      }
+    }
+
+    files.sort((a, b) => a.mtime - b.mtime);
+    for (const { file } of files.slice(0, Math.max(0, files.length - FILE_MAX_CONVERSATIONS))) {
+      await fs.promises.rm(file, { force: true });
+    }
+  };
+
+  // Runs in the background on create, at most once per interval
+  let lastPrune = 0;
+  const maybePrune = (): void => {
+    if (Date.now() - lastPrune < FILE_PRUNE_INTERVAL_MS) return;
+    lastPrune = Date.now();
+    void prune().catch(() => undefined);
+  };
+
+  // Appends to one conversation run one at a time, so concurrent turns don't overwrite each other
+  const queues = new Map<string, Promise<unknown>>();
+  const serialized = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+    const run = (queues.get(id) ?? Promise.resolve()).then(task, task);
+    const tail = run.catch(() => undefined);
+    queues.set(id, tail);
+    void tail.then(() => {
+      if (queues.get(id) === tail) queues.delete(id);
+    });
+    return run;
+  };
+
+  return {
+    create: async () => {
+      const c = newConversation();
+      await write(c);
+      maybePrune();
+      return c;
+    },
+    get: read,
+    append: (id, entry) =>
+      serialized(id, async () => {
+        const c = await read(id);
+        if (!c) throw new Error(`Unknown conversation: ${id}`);
+        const next = appendTo(c, entry);
+        await write(next);
+        return next;
+      }),
+  };
+}
+
+/** Singleton store (env-based). */
+let _store: ConversationStore | null = null;
+
+export function getConversationStore(): ConversationStore {
+  if (_store) return _store;
+
+  _store =
+    env.CONVERSATION_STORE === "memory"
+      ? createMemoryConversationStore()
+      : createFileConversationStore(
+          path.resolve(process.cwd(), env.CONVERSATIONS_DIR ?? path.join(".data", "conversations"))
+        );
+
+  return _store;
+}
@@ -27,8 +27,16 @@ const EnvSchema = z.object({
   // CORS
   CORS_ORIGIN: z.string().optional(), // e.g. "http://localhost:5173"
 
+  // LLM provider (default: openai)
+  LLM_PROVIDER: z.enum(["openai", "openai-compatible", "mock"]).optional(),
+  LLM_BASE_URL: z.string().url().optional(), // openai-compatible only
+  LLM_API_KEY: z.string().optional(), // openai-compatible only (falls back to OPENAI_API_KEY)
+  LLM_MODEL: z.string().optional(), // overrides OPENAI_MODEL
+  LLM_MOCK_SCRIPT: z.string().optional(), // mock only: JSON rules file
+  LLM_STRUCTURED_OUTPUTS: BoolFromEnv.optional(), // default true; false = plain JSON mode (older servers)
+
   // OpenAI
-  OPENAI_API_KEY: z.string().min(1, "OPENAI_API_KEY is required"),
+  OPENAI_API_KEY: z.string().min(1).optional(), // required when LLM_PROVIDER=openai
   OPENAI_MODEL: z.string().optional(),
   OPENAI_MAX_OUTPUT_TOKENS: z.coerce.number().int().positive().optional(),
 
@@ -68,6 +76,7 @@ const EnvSchema = z.object({
   VESTING_ADDRESS: Address.optional(),
   MERKLE_ROOT: Bytes32.optional(),
   TGE_TIMESTAMP: z.coerce.number().int().nonnegative().optional(),
+  VESTING_ALLOCATIONS_PATH: z.string().optional(), // default: src/vesting_allocations.json
 
   // uShare defaults (optional, but handy)
   SNAPSHOT_BLOCK: z.coerce.number().int().nonnegative().optional(),
@@ -89,8 +98,17 @@ const EnvSchema = z.object({
   DOCS_URL: z.string().optional(),
   SUPPORT_EMAIL: z.string().optional(),
 
+  // knowledge base retrieval
+  KB_RETRIEVAL_TOKEN_BUDGET: z.coerce.number().int().positive().optional(), // default: 1800
+
   // uShare registry config
   USHARE_OFFERINGS_JSON: z.string().optional(),
+  USHARE_FACTORY_FROM_BLOCK: z.coerce.bigint().nonnegative().optional(), // factory deploy block (default: 0)
+  USHARE_REGISTRY_TTL_SEC: z.coerce.number().int().positive().optional(), // default: 300
+
+  // conversation sessions
+  CONVERSATION_STORE: z.enum(["file", "memory"]).optional(), // default: file
+  CONVERSATIONS_DIR: z.string().optional(), // default: .data/conversations
 });
 
 export type Env = z.infer<typeof EnvSchema>;
@@ -106,6 +124,14 @@ export const env: Env = (() => {
 
   const data = parsed.data;
 
+  const provider = data.LLM_PROVIDER ?? "openai";
+  if (provider === "openai" && !data.OPENAI_API_KEY) {
+    throw new Error("Invalid environment variables:\nOPENAI_API_KEY: required when LLM_PROVIDER=openai");
+  }
+  if (provider === "openai-compatible" && !data.LLM_BASE_URL) {
+    throw new Error("Invalid environment variables:\nLLM_BASE_URL: required when LLM_PROVIDER=openai-compatible");
+  }
+
   // Normalize prompt: if SYSTEM_PROMPT is missing, fall back to ASSISTANT_SYSTEM_PROMPT.
   if (!data.SYSTEM_PROMPT && data.ASSISTANT_SYSTEM_PROMPT) {
     return { ...data, SYSTEM_PROMPT: data.ASSISTANT_SYSTEM_PROMPT };
@@ -0,0 +1,464 @@
+// src/lib/intentParser.ts
+import type { Address } from "viem";
+
+import { resolveUShare, type UShareOffering } from "../config/uShareOfferings";
+import type { UShareAmountUnit } from "./uShareSale";
+
+/**
+ * Deterministic intent parser for clear commands ("stake 1.5k", "unstake all",
+ * "stake half my balance", "buy 20 uAPT", "put 500 USDC into uAPT",
+ * "how much would 10 uAPT cost", "vote yes on 12", "delegate to myself").
+ *
+ * Shares of a balance come back as "50%" amounts; the balance guard resolves them.
+ *
+ * - strict: the whole message must be a command (fast path before the LLM)
+ * - loose: a command may end a clause of a longer sentence (fallback when the LLM is
+ *   down); questions and negations ("should I stake 100?", "don't stake") only
+ *   yield read-only quotes
+ *
+ * Returns null when nothing matches; callers then use the LLM / help text.
+ *
+ * parseIntentSequence handles chained commands ("unstake 50 and buy 20 uAPT",
+ * "claim my vesting then stake it"); every part must be a clear command.
+ */
+
+export type RuleIntent = Readonly<{
+  actionType:
+    | "STAKE"
+    | "UNSTAKE"
+    | "STAKE_ALL"
+    | "UNSTAKE_ALL"
+    | "CLAIM_STAKING_REWARDS"
+    | "BUY_USHARE"
+    | "QUOTE"
+    | "CLAIM_REDISTRIBUTION"
+    | "VOTE"
+    | "DELEGATE"
+    | "CLAIM_VESTING";
+  interpretation: string;
+  userMessage: string;
+  amount?: string;
+  amountUnit?: UShareAmountUnit;
+  uShareId?: `0x${string}`;
+  proposalId?: number;
+  vote?: boolean;
+  delegatee?: Address | "self";
+  gasless?: boolean;
+}>;
+
+export type ParseMode = "strict" | "loose";
+
+// One step of a chained command; `amountFromStep` (1-based) reuses an earlier step's output.
+// Quotes are read-only answers, never steps.
+export type RuleStep = Omit<RuleIntent, "actionType"> &
+  Readonly<{ actionType: Exclude<RuleIntent["actionType"], "QUOTE">; amountFromStep?: number }>;
+
+const MAX_SEQUENCE_STEPS = 5;
+
+// Loose mode: a command only counts when the message isn't asking about it or refusing it
+const QUESTION = /\?|\b(?:how|what|why|when|which|should|can|could|would|shall|if|whether)\b/i;
+const NEGATION = /\b(?:don'?t|do not|never|not|no need to|won'?t|stop)\b/i;
+
+// "1.5k", "2m", "1,000", "0,5" (decimal comma), "250"
+const AMOUNT = String.raw`(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:[.,]\d+)?)\s*(k|m)?\b`;
+// "$500", "500 usdc", "500$"; the amount is in groups 1-2 or 3-4
+const USDC_AMOUNT = String.raw`(?:\$\s*${AMOUNT}|${AMOUNT} ?(?:usdc|usd|dollars?|\$))`;
+// "25%", "25 percent", "half", "a quarter"; number in group 1, word in group 2
+const PERCENT = String.raw`(?:(\d{1,3}(?:\.\d{1,2})?) ?(?:%|percent)|(half|a quarter|quarter|three quarters))`;
+const ALL = String.raw`(?:all|everything|max|(?:my\s+)?(?:whole|entire|full)\s+(?:balance|stake|amount))`;
+
+// "stake it", "restake them", "stake what I just claimed"
+const PREVIOUS_OUTPUT = String.raw`(?:re)?stake (?:it|that|them|it all|all of it|(?:what|the amount) i (?:just )?(?:claimed|unstaked|withdrew|received|got))(?: urano)?(?: again)?`;
+
+// "and", "then", "and then", "after that", or ", " / "; " between commands
+const SEQUENCE_SEPARATOR = /\s*(?:,\s*)?\b(?:and then|then|and|after that)\b\s*|\s*[,;]\s+/i;
+
+const FRACTION_PERCENT: Readonly<Record<string, string>> = {
+  half: "50",
+  "a quarter": "25",
+  quarter: "25",
+  "three quarters": "75",
+};
+
+const SUFFIX_ZEROS: Readonly<Record<string, number>> = { k: 3, m: 6 };
+
+/** Shift a decimal string left by `zeros` places of ten without floating point. */
+function scaleDecimal(value: string, zeros: number): string {
+  const [int = "0", frac = ""] = value.split(".");
+  const digits = `${int}${frac.padEnd(zeros, "0")}`;
+  const point = int.length + zeros;
+  const whole = digits.slice(0, point).replace(/^0+(?=\d)/, "");
+  const rest = digits.slice(point).replace(/0+$/, "");
+  return rest ? `${whole}.${rest}` : whole;
+}
+
+function amountFromMatch(num: string, suffix: string | undefined): string {
+  // "1,000" is a thousands separator; "0,5" is a decimal comma
+  const normalized = /^\d{1,3}(,\d{3})+(\.\d+)?$/.test(num) ? num.replace(/,/g, "") : num.replace(",", ".");
+  const zeros = suffix ? SUFFIX_ZEROS[suffix.toLowerCase()] ?? 0 : 0;
+  return scaleDecimal(normalized, zeros);
+}
+
+/** "1.5k" -> "1500", "1,000" -> "1000"; null when the text is not a plain amount. */
+export function normalizeHumanAmount(text: string): string | null {
+  const m = new RegExp(`^\\s*${AMOUNT}\\s*$`, "i").exec(text);
+  return m ? amountFromMatch(m[1]!, m[2]) : null;
+}
+
+/** First amount mentioned in free text (with k/m shorthand), or null. */
+export function extractAmount(text: string): string | null {
+  // Not digits inside a word or hex string ("0x1111...")
+  const m = new RegExp(String.raw`(?<![\w.])${AMOUNT}`, "i").exec(text);
+  return m ? amountFromMatch(m[1]!, m[2]) : null;
+}
+
+/** Every dollar-marked amount in free text ("$500", "500 usdc"), normalized like extractAmount. */
+export function extractUsdcAmounts(text: string): string[] {
+  return [...text.matchAll(new RegExp(String.raw`(?<![\w.])${USDC_AMOUNT}`, "gi"))].map((m) =>
+    m[1] !== undefined ? amountFromMatch(m[1], m[2]) : amountFromMatch(m[3]!, m[4])
+  );
+}
+
+function percentFromMatch(num: string | undefined, word: string | undefined): string | null {
+  const p = num ?? (word ? FRACTION_PERCENT[word.toLowerCase()] : undefined);
+  return p !== undefined && percentAmountBps(`${p}%`) !== null ? `${p}%` : null;
+}
+
+/** "half my balance" -> "50%", "25 percent" -> "25%"; null when no share of a balance is mentioned. */
+export function extractPercentAmount(text: string): string | null {
+  const m = new RegExp(String.raw`\b${PERCENT}(?!\w)`, "i").exec(text);
+  return m ? percentFromMatch(m[1], m[2]) : null;
+}
+
+/** Basis points of a "25%" amount; null when the amount is not a percentage in (0, 100]. */
+export function percentAmountBps(amount: string): bigint | null {
+  const m = /^\s*(\d{1,3})(?:\.(\d{1,2}))?\s*%\s*$/.exec(amount);
+  if (!m) return null;
+  const bps = BigInt(m[1]!) * 100n + BigInt((m[2] ?? "").padEnd(2, "0"));
+  return bps > 0n && bps <= 10_000n ? bps : null;
+}
+
+function cleanCommand(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[.!?]+$/, "")
+    .replace(/^(?:(?:please|pls|can you|could you|i want to|i'd like to|i would like to|let me)\s+)+/, "")
+    .replace(/\s+please$/, "")
+    .replace(/\s+/g, " ");
+}
+
+type OfferingMatch = Readonly<{ offering: UShareOffering | null; ambiguous: boolean }>;
+
+// Only an actual mention counts; the lone-offering default is applied later by the planner
+function findOfferingInText(offerings: readonly UShareOffering[], text: string): OfferingMatch {
+  const r = resolveUShare(offerings, text);
+  const top = r.candidates[0];
+  return {
+    offering: !r.ambiguous && top && top.reason !== "ONLY_OFFERING" ? top.offering : null,
+    ambiguous: r.ambiguous,
+  };
+}
+
+function pastedUShareId(text: string): `0x${string}` | undefined {
+  return text.match(/0x[a-fA-F0-9]{64}/)?.[0] as `0x${string}` | undefined;
+}
+
+function unknownWords(text: string, filler: readonly string[]): boolean {
+  return text
+    .replace(/0x[a-f0-9]{64}/gi, " ")
+    .split(/\s+/)
+    .some((w) => w !== "" && !filler.includes(w));
+}
+
+const BUY_FILLER = ["ushare", "ushares", "share", "shares", "token", "tokens", "of"];
+
+type Rule = Readonly<{
+  pattern: string;
+  build: (m: RegExpExecArray, raw: string, mode: ParseMode) => RuleIntent | null;
+}>;
+
+function rules(offerings: readonly UShareOffering[]): readonly Rule[] {
+  const uShareLabel = (o: UShareOffering | null): string => (o ? `${o.name} (${o.symbol})` : "uShares");
+
+  // Which uShare a buy/quote names; null when strict mode sees words that aren't a uShare
+  const target = (named: string, raw: string, mode: ParseMode) => {
+    const { offering, ambiguous } = findOfferingInText(offerings, mode === "strict" ? named : raw);
+    // A near-tie ("milano" for two Milano uShares) stays a command; the planner asks which one.
+    if (mode === "strict" && !offering && !ambiguous && unknownWords(named, BUY_FILLER)) return null;
+    const uShareId = pastedUShareId(raw) ?? offering?.uShareId;
+    return { label: uShareLabel(offering), ...(uShareId ? { uShareId } : {}) };
+  };
+
+  const usdcAmount = (m: RegExpExecArray, i: number): string =>
+    m[i] !== undefined ? amountFromMatch(m[i]!, m[i + 1]) : amountFromMatch(m[i + 2]!, m[i + 3]);
+
+  return [
+    {
+      pattern: String.raw`stake ${ALL}(?: (?:of )?(?:my )?urano)?`,
+      build: () => ({
+        actionType: "STAKE_ALL",
+        interpretation: "Stake the full URANO wallet balance",
+        userMessage: "Preparing a stake of your full URANO balance.",
+      }),
+    },
+    {
+      pattern: String.raw`(?:unstake|withdraw) ${ALL}(?: (?:of )?(?:my )?urano)?(?: from staking)?`,
+      build: () => ({
+        actionType: "UNSTAKE_ALL",
+        interpretation: "Unstake the full staked URANO amount",
+        userMessage: "Preparing to unstake all of your staked URANO.",
+      }),
+    },
+    {
+      // Before the plain amount rules so "stake 25%" isn't read as 25 URANO
+      pattern: String.raw`stake ${PERCENT}(?: of)?(?: my)?(?: urano)?(?: wallet)?(?: balance)?`,
+      build: (m) => {
+        const amount = percentFromMatch(m[1], m[2]);
+        return amount
+          ? {
+              actionType: "STAKE",
+              interpretation: `Stake ${amount} of the URANO wallet balance`,
+              userMessage: `Preparing to stake ${amount} of your URANO wallet balance.`,
+              amount,
+            }
+          : null;
+      },
+    },
+    {
+      pattern: String.raw`(?:unstake|withdraw) ${PERCENT}(?: of)?(?: my)?(?: staked)?(?: urano)?(?: stake)?(?: from staking)?`,
+      build: (m) => {
+        const amount = percentFromMatch(m[1], m[2]);
+        return amount
+          ? {
+              actionType: "UNSTAKE",
+              interpretation: `Unstake ${amount} of the staked URANO`,
+              userMessage: `Preparing to unstake ${amount} of your staked URANO.`,
+              amount,
+            }
+          : null;
+      },
+    },
+    {
+      pattern: String.raw`stake ${AMOUNT}(?: urano)?`,
+      build: (m) => {
+        const amount = amountFromMatch(m[1]!, m[2]);
+        return {
+          actionType: "STAKE",
+          interpretation: `Stake ${amount} URANO`,
+          userMessage: `Preparing to stake ${amount} URANO.`,
+          amount,
+        };
+      },
+    },
+    {
+      pattern: String.raw`(?:unstake|withdraw) ${AMOUNT}(?: urano)?(?: from staking)?`,
+      build: (m) => {
+        const amount = amountFromMatch(m[1]!, m[2]);
+        return {
+          actionType: "UNSTAKE",
+          interpretation: `Unstake ${amount} URANO`,
+          userMessage: `Preparing to unstake ${amount} URANO.`,
+          amount,
+        };
+      },
+    },
+    {
+      pattern: String.raw`(?:claim|collect|harvest)(?: my)?(?: staking)? rewards?`,
+      build: () => ({
+        actionType: "CLAIM_STAKING_REWARDS",
+        interpretation: "Claim staking rewards",
+        userMessage: "Preparing to claim your staking rewards.",
+      }),
+    },
+    {
+      pattern: String.raw`(?:put|invest|spend|use) ${PERCENT} of my (?:usdc|usd|dollars|cash)(?: balance)? (?:in|into|on) (.+)`,
+      build: (m, raw, mode) => {
+        const amount = percentFromMatch(m[1], m[2]);
+        const t = target(m[3]!, raw, mode);
+        if (!amount || !t) return null;
+        return {
+          actionType: "BUY_USHARE",
+          interpretation: `Buy ${t.label} with ${amount} of the USDC balance`,
+          userMessage: `Preparing to buy ${t.label} with ${amount} of your USDC balance.`,
+          amount,
+          amountUnit: "USDC",
+          ...(t.uShareId ? { uShareId: t.uShareId } : {}),
+        };
+      },
+    },
+    {
+      // Before the plain buy rule: "buy 500 usdc of X" is a USDC amount, not 500 uShares
+      pattern: String.raw`(?:put|invest|spend|use|buy) ${USDC_AMOUNT}(?: worth)?(?: (?:of|in|into|on|for))? (.+)`,
+      build: (m, raw, mode) => {
+        const amount = usdcAmount(m, 1);
+        const t = target(m[5]!, raw, mode);
+        if (!t) return null;
+        return {
+          actionType: "BUY_USHARE",
+          interpretation: `Buy ${t.label} for ${amount} USDC`,
+          userMessage: `Preparing to buy ${t.label} for ${amount} USDC.`,
+          amount,
+          amountUnit: "USDC",
+          ...(t.uShareId ? { uShareId: t.uShareId } : {}),
+        };
+      },
+    },
+    {
+      pattern: String.raw`buy ${AMOUNT}(?: (.+))?`,
+      build: (m, raw, mode) => {
+        const amount = amountFromMatch(m[1]!, m[2]);
+        // Strict: an unknown word after the amount ("buy 20 apples") is not a clear command
+        const t = target(m[3] ?? "", raw, mode);
+        if (!t) return null;
+        return {
+          actionType: "BUY_USHARE",
+          interpretation: `Buy ${amount} ${t.label}`,
+          userMessage: `Preparing to buy ${amount} ${t.label}.`,
+          amount,
+          ...(t.uShareId ? { uShareId: t.uShareId } : {}),
+        };
+      },
+    },
+    {
+      pattern: String.raw`(?:how much (?:would|does|do|will|is|are) |what (?:would|does|do|will) )?${AMOUNT} (.+?) cost(?: me)?(?: now| today)?`,
+      build: (m, raw, mode) => quoteIntent(amountFromMatch(m[1]!, m[2]), "USHARE", target(m[3]!, raw, mode)),
+    },
+    {
+      pattern: String.raw`(?:quote|price)(?: for| of)? ${AMOUNT} (.+)`,
+      build: (m, raw, mode) => quoteIntent(amountFromMatch(m[1]!, m[2]), "USHARE", target(m[3]!, raw, mode)),
+    },
+    {
+      pattern: String.raw`how many (.+?)(?: (?:can|could|would|do) i (?:get|buy))? (?:for|with) ${USDC_AMOUNT}`,
+      build: (m, raw, mode) => quoteIntent(usdcAmount(m, 2), "USDC", target(m[1]!, raw, mode)),
+    },
+    {
+      pattern: String.raw`(?:claim|collect)(?: my)?(?: (.+?))? (?:payouts?|redistribution|dividends?|cashflow|rent)`,
+      build: (m, raw, mode) => {
+        const named = m[1] ?? "";
+        const { offering, ambiguous } = findOfferingInText(offerings, mode === "strict" ? named : raw);
+        if (mode === "strict" && !offering && !ambiguous && unknownWords(named, ["ushare", "ushares", "the"])) {
+          return null;
+        }
+
+        const uShareId = pastedUShareId(raw) ?? offering?.uShareId;
+        return {
+          actionType: "CLAIM_REDISTRIBUTION",
+          interpretation: `Claim the ${uShareLabel(offering)} payout`,
+          userMessage: `Preparing to claim your ${uShareLabel(offering)} payout.`,
+          ...(uShareId ? { uShareId } : {}),
+        };
+      },
+    },
+    {
+      pattern: String.raw`vote (yes|no|for|against) (?:on )?(?:proposal )?#?(\d+)`,
+      build: (m) => voteIntent(Number(m[2]), m[1] === "yes" || m[1] === "for"),
+    },
+    {
+      pattern: String.raw`vote (?:on )?(?:proposal )?#?(\d+):? (yes|no|for|against)`,
+      build: (m) => voteIntent(Number(m[1]), m[2] === "yes" || m[2] === "for"),
+    },
+    {
+      pattern: String.raw`delegate(?: my)?(?: votes| voting power| urano)? to (myself|me|self|0x[a-f0-9]{40})( gasless(?:ly)?| without gas| (?:by|with|via) signature)?`,
+      build: (m, raw) => {
+        const self = !m[1]!.startsWith("0x");
+        // Keep the address checksum casing from the original message
+        const addr = self ? null : (raw.match(new RegExp(m[1]!, "i"))?.[0] as Address | undefined);
+        const target = self ? "yourself" : addr!;
+        return {
+          actionType: "DELEGATE",
+          interpretation: `Delegate URANO voting power to ${target}`,
+          userMessage: `Preparing to delegate your voting power to ${target}.`,
+          delegatee: self ? "self" : addr!,
+          ...(m[2] ? { gasless: true } : {}),
+        };
+      },
+    },
+    {
+      pattern: String.raw`claim(?: my)?(?: vested| vesting)+(?: urano)?(?: tokens?)?`,
+      build: () => ({
+        actionType: "CLAIM_VESTING",
+        interpretation: "Claim vested URANO",
+        userMessage: "Preparing to claim your vested URANO.",
+      }),
+    },
+  ];
+}
+
+function quoteIntent(
+  amount: string,
+  unit: UShareAmountUnit,
+  t: Readonly<{ label: string; uShareId?: `0x${string}` }> | null
+): RuleIntent | null {
+  if (!t) return null;
+  const what = unit === "USDC" ? `${amount} USDC of ${t.label}` : `${amount} ${t.label}`;
+  return {
+    actionType: "QUOTE",
+    interpretation: `Quote ${what}`,
+    userMessage: `Checking the live price for ${what}.`,
+    amount,
+    amountUnit: unit,
+    ...(t.uShareId ? { uShareId: t.uShareId } : {}),
+  };
+}
+
+function voteIntent(proposalId: number, vote: boolean): RuleIntent {
+  const side = vote ? "YES" : "NO";
+  return {
+    actionType: "VOTE",
+    interpretation: `Vote ${side} on proposal #${proposalId}`,
+    userMessage: `Preparing your ${side} vote on proposal #${proposalId}.`,
+    proposalId,
+    vote,
+  };
+}
+
+export function parseIntent(
+  text: string,
+  offerings: readonly UShareOffering[],
+  mode: ParseMode = "strict"
+): RuleIntent | null {
+  const cmd = cleanCommand(text);
+  if (!cmd) return null;
+
+  const readOnly = mode === "loose" && (QUESTION.test(text) || NEGATION.test(text));
+
+  for (const rule of rules(offerings)) {
+    const re = new RegExp(mode === "strict" ? `^${rule.pattern}$` : `\\b${rule.pattern}(?=$|[,.;!])`, "i");
+    const m = re.exec(cmd);
+    if (!m) continue;
+
+    const intent = rule.build(m, text, mode);
+    if (intent && (!readOnly || intent.actionType === "QUOTE")) return intent;
+  }
+
+  return null;
+}
+
+export function parseIntentSequence(text: string, offerings: readonly UShareOffering[]): RuleStep[] | null {
+  const parts = text
+    .split(SEQUENCE_SEPARATOR)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  if (parts.length < 2 || parts.length > MAX_SEQUENCE_STEPS) return null;
+
+  const steps: RuleStep[] = [];
+  for (const part of parts) {
+    if (steps.length > 0 && new RegExp(`^${PREVIOUS_OUTPUT}$`, "i").test(cleanCommand(part))) {
+      const from = steps.length;
+      steps.push({
+        actionType: "STAKE",
+        interpretation: `Stake the URANO from step ${from}`,
+        userMessage: `Preparing to stake the URANO from step ${from}.`,
+        amountFromStep: from,
+      });
+      continue;
+    }
+
+    const intent = parseIntent(part, offerings, "strict");
+    if (!intent || intent.actionType === "QUOTE") return null;
+    steps.push({ ...intent, actionType: intent.actionType });
+  }
+
+  return steps;
+}
@@ -0,0 +1,196 @@
+// src/lib/kbRetrieval.ts
+import type { KnowledgePack } from "./knowledgePack";
+
+/**
+ * Local BM25 retrieval over the knowledge pack.
+ *
+ * The pack is split into small passages (section summaries, bullets, body
+ * chunks, glossary entries, FAQ entries). The index is built in-process the
+ * first time a pack is queried; no external service is involved.
+ */
+
+export type KbPassageKind = "summary" | "bullet" | "body" | "glossary" | "faq";
+
+export type KbPassage = Readonly<{
+  id: string;
+  kind: KbPassageKind;
+  // Section the passage belongs to (glossary/FAQ entries have none)
+  sectionId: string | null;
+  title: string;
+  text: string;
+}>;
+
+export type KbHit = Readonly<{ passage: KbPassage; score: number }>;
+
+type KbIndex = Readonly<{
+  pack: KnowledgePack;
+  passages: readonly KbPassage[];
+  termFreqs: ReadonlyArray<ReadonlyMap<string, number>>;
+  lengths: readonly number[];
+  avgLength: number;
+  docFreq: ReadonlyMap<string, number>;
+}>;
+
+const K1 = 1.2;
+const B = 0.75;
+const BODY_CHUNK_CHARS = 600;
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be by can do does for from has have how i in is it its me my of on or " +
+    "our so that the their then there these this to was what when where which who why will with you your"
+  ).split(" ")
+);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((t) => t.length > 1 && !STOP_WORDS.has(t))
+    .map((t) => (t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t));
+}
+
+function chunkText(text: string, maxChars: number): string[] {
+  const paras = text
+    .split(/\n{2,}|(?<=[.!?])\s+/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let cur = "";
+  for (const p of paras) {
+    if (cur && cur.length + p.length + 1 > maxChars) {
+      chunks.push(cur);
+      cur = "";
+    }
+    cur = cur ? `${cur} ${p}` : p;
+  }
+  if (cur) chunks.push(cur);
+  return chunks;
+}
+
+export function passagesFromPack(kb: KnowledgePack): KbPassage[] {
+  const out: KbPassage[] = [];
+
+  for (const s of kb.sections) {
+    if (s.summary.trim()) {
+      out.push({ id: `${s.id}#summary`, kind: "summary", sectionId: s.id, title: s.title, text: s.summary });
+    }
+    (s.bullets ?? []).forEach((b, i) => {
+      out.push({ id: `${s.id}#bullet-${i}`, kind: "bullet", sectionId: s.id, title: s.title, text: b });
+    });
+    if (s.body && s.body.trim()) {
+      chunkText(s.body, BODY_CHUNK_CHARS).forEach((c, i) => {
+        out.push({ id: `${s.id}#body-${i}`, kind: "body", sectionId: s.id, title: s.title, text: c });
+      });
+    }
+  }
+
+  kb.glossary.forEach((g, i) => {
+    out.push({
+      id: `glossary-${i}`,
+      kind: "glossary",
+      sectionId: null,
+      title: g.term,
+      text: `${g.term}: ${g.definition}`,
+    });
+  });
+
+  kb.faq.forEach((f, i) => {
+    out.push({ id: `faq-${i}`, kind: "faq", sectionId: null, title: f.q, text: `Q: ${f.q}\nA: ${f.a}` });
+  });
+
+  return out;
+}
+
+export function buildKbIndex(pack: KnowledgePack): KbIndex {
+  const passages = passagesFromPack(pack);
+  const termFreqs: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const docFreq = new Map<string, number>();
+
+  for (const p of passages) {
+    // Titles are short and high-signal: index them alongside the text
+    const toks = tokenize(`${p.title} ${p.text}`);
+    const tf = new Map<string, number>();
+    for (const t of toks) tf.set(t, (tf.get(t) ?? 0) + 1);
+    for (const t of tf.keys()) docFreq.set(t, (docFreq.get(t) ?? 0) + 1);
+    termFreqs.push(tf);
+    lengths.push(toks.length);
+  }
+
+  const avgLength = lengths.length > 0 ? lengths.reduce((a, b) => a + b, 0) / lengths.length : 0;
+  return { pack, passages, termFreqs, lengths, avgLength, docFreq };
+}
+
+let _index: KbIndex | null = null;
+
+function indexFor(pack: KnowledgePack): KbIndex {
+  if (!_index || _index.pack !== pack) _index = buildKbIndex(pack);
+  return _index;
+}
+
+export function searchKb(pack: KnowledgePack, query: string, limit = 20): KbHit[] {
+  const idx = indexFor(pack);
+  const q = [...new Set(tokenize(query))];
+  if (q.length === 0) return [];
+
+  const n = idx.passages.length;
+  const hits: KbHit[] = [];
+
+  idx.passages.forEach((passage, i) => {
+    const tf = idx.termFreqs[i]!;
+    const len = idx.lengths[i]!;
+    let score = 0;
+
+    for (const t of q) {
+      const f = tf.get(t);
+      if (!f) continue;
+      const df = idx.docFreq.get(t) ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      score += (idf * f * (K1 + 1)) / (f + K1 * (1 - B + (B * len) / (idx.avgLength || 1)));
+    }
+
+    if (score > 0) hits.push({ passage, score });
+  });
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/** Rough token estimate (~4 chars/token) so the budget doesn't need a tokenizer dependency. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Best passages for the question that fit in `tokenBudget`.
+ */
+export function retrievePassages(pack: KnowledgePack, query: string, tokenBudget: number): KbHit[] {
+  const picked: KbHit[] = [];
+  let used = 0;
+
+  for (const hit of searchKb(pack, query)) {
+    const cost = estimateTokens(hit.passage.text) + 10;
+    if (used + cost > tokenBudget) continue;
+    picked.push(hit);
+    used += cost;
+  }
+
+  return picked;
+}
+
+export function formatPassagesForPrompt(pack: KnowledgePack, hits: readonly KbHit[]): string {
+  const body = hits
+    .map((h) => {
+      // Only the citable id is shown, so the model can't cite a passage id
+      const cite = h.passage.sectionId ?? h.passage.kind;
+      return `[cite:${cite}] ${h.passage.title}\n${h.passage.text}`;
+    })
+    .join("\n\n");
+
+  return `Knowledge Base excerpts (source: ${pack.source}, version: ${pack.version})
+
+${body || "(no relevant passages found)"}
+`;
+}
@@ -0,0 +1,71 @@
+// src/lib/kbSources.ts
+import type { KnowledgePack } from "./knowledgePack";
+
+/**
+ * Source citations for KB answers.
+ *
+ * The answer model cites sections inline as `[source:<section-id>]` (glossary and
+ * FAQ excerpts as `[source:glossary]` / `[source:faq]`). Cited ids are checked
+ * against the pack: known ones become `sources` entries (sections with a deep
+ * link into DOCS_URL), unknown ones are stripped from the text and reported so
+ * the route can flag them. A passage id (`staking#summary`) counts as its section.
+ */
+
+export type KbSource = Readonly<{
+  id: string;
+  title: string;
+  url?: string;
+}>;
+
+export type CitationCheck = Readonly<{
+  text: string; // answer with unknown citation markers removed
+  sources: KbSource[];
+  unknownIds: string[];
+}>;
+
+const CITATION_RE = /\s?\[source:\s*([^\]\s]+)\s*\]/gi;
+
+export const CITATION_INSTRUCTIONS =
+  "Cite every fact with the id of the section it came from, inline as [source:<section-id>] " +
+  "(e.g. [source:staking-and-ecosystem-participation]). Only cite the ids shown as `cite:` in the excerpts.";
+
+// Glossary and FAQ entries have no section of their own; they are cited as a whole
+const PACK_SOURCES = { glossary: "Glossary", faq: "FAQ" } as const;
+
+/** Docs deep link: DOCS_URL with the section id as fragment. */
+export function sectionDeepLink(docsUrl: string | undefined, sectionId: string): string | undefined {
+  const base = (docsUrl ?? "").trim();
+  if (!base) return undefined;
+  return `${base.replace(/#.*$/, "")}#${encodeURIComponent(sectionId)}`;
+}
+
+export function checkCitations(kb: KnowledgePack, answer: string, docsUrl?: string): CitationCheck {
+  const byId = new Map<string, Readonly<{ title: string; deepLink: boolean }>>(
+    kb.sections.map((s) => [s.id, { title: s.title, deepLink: true }])
+  );
+  for (const key of ["glossary", "faq"] as const) {
+    if (kb[key].length > 0 && !byId.has(key)) byId.set(key, { title: PACK_SOURCES[key], deepLink: false });
+  }
+  const sources: KbSource[] = [];
+  const unknownIds: string[] = [];
+
+  const text = answer.replace(CITATION_RE, (marker, rawId: string) => {
+    // "staking#summary" (a passage id) cites the staking section
+    const id = rawId.toLowerCase().replace(/#.*$/, "");
+    const section = byId.get(id);
+
+    if (!section) {
+      if (!unknownIds.includes(id)) unknownIds.push(id);
+      return "";
+    }
+
+    if (!sources.some((s) => s.id === id)) {
+      const url = section.deepLink ? sectionDeepLink(docsUrl, id) : undefined;
+      sources.push({ id, title: section.title, ...(url ? { url } : {}) });
+    }
+    // Markers in the text use the section id, like `sources`
+    return marker.replace(rawId, id);
+  });
+
+  return { text, sources, unknownIds };
+}
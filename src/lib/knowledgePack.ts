@@ -0,0 +1,94 @@
+// src/lib/knowledgePack.ts
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+/* ----------------------------- Knowledge Pack (static JSON) ----------------------------- */
+
+// Section ids double as citation ids and docs anchors, so keep them slug-shaped
+const SectionIdSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Section id must be a lowercase slug");
+
+export const KnowledgeSectionSchema = z.object({
+  id: SectionIdSchema,
+  title: z.string().min(1),
+  summary: z.string(),
+  bullets: z.array(z.string().min(1)),
+  body: z.string().optional(),
+});
+
+export const KnowledgePackSchema = z
+  .object({
+    source: z.string().min(1),
+    version: z.string().min(1),
+    generatedFrom: z.string().optional(),
+    sections: z.array(KnowledgeSectionSchema).min(1),
+    glossary: z.array(z.object({ term: z.string().min(1), definition: z.string().min(1) })),
+    faq: z.array(z.object({ q: z.string().min(1), a: z.string().min(1) })),
+  })
+  .superRefine((pack, ctx) => {
+    const seen = new Set<string>();
+    pack.sections.forEach((s, i) => {
+      if (seen.has(s.id)) {
+        ctx.addIssue({ code: "custom", path: ["sections", i, "id"], message: `Duplicate section id: ${s.id}` });
+      }
+      seen.add(s.id);
+    });
+  });
+
+export type KnowledgeSection = Readonly<z.infer<typeof KnowledgeSectionSchema>>;
+export type KnowledgePack = Readonly<z.infer<typeof KnowledgePackSchema>>;
+
+export const KB_REL_PATH = path.join("src", "project_kb.json");
+
+let KB_CACHE: KnowledgePack | null = null;
+
+export type KnowledgePackReadResult =
+  | Readonly<{ ok: true; pack: KnowledgePack }>
+  | Readonly<{ ok: false; error: string; issues?: string[] }>;
+
+export function parseKnowledgePack(input: unknown): KnowledgePackReadResult {
+  const parsed = KnowledgePackSchema.safeParse(input);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+    return { ok: false, error: "INVALID_KNOWLEDGE_PACK", issues };
+  }
+  return { ok: true, pack: parsed.data };
+}
+
+export function readKnowledgePackFile(file = path.resolve(process.cwd(), KB_REL_PATH)): KnowledgePackReadResult {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, "utf8");
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "Cannot read knowledge pack" };
+  }
+
+  try {
+    return parseKnowledgePack(JSON.parse(raw));
+  } catch {
+    return { ok: false, error: "Knowledge pack is not valid JSON" };
+  }
+}
+
+export function loadKnowledgePack(): KnowledgePack | null {
+  if (KB_CACHE) return KB_CACHE;
+
+  const res = readKnowledgePackFile();
+  if (!res.ok) return null;
+
+  KB_CACHE = res.pack;
+  return KB_CACHE;
+}
+
+/**
+ * Replace the active pack (admin hot-swap). Callers validate first.
+ * The retrieval index is keyed by pack identity, so it rebuilds on next query.
+ */
+export function setKnowledgePack(pack: KnowledgePack): void {
+  KB_CACHE = pack;
+}
+
+export function activeKnowledgePackInfo(): Readonly<{ version: string; source: string; sections: number }> | null {
+  const kb = loadKnowledgePack();
+  return kb ? { version: kb.version, source: kb.source, sections: kb.sections.length } : null;
+}
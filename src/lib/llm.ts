@@ -0,0 +1,118 @@
+// src/lib/llm.ts
+import { env } from "./env";
+import { createOpenAiProvider } from "./openai";
+import { createMockProvider, loadMockScript } from "./llmMock";
+import type { StructuredOutputSpec } from "./structuredOutput";
+
+/**
+ * Vendor-neutral LLM interface used by the chat route.
+ *
+ * Providers (LLM_PROVIDER):
+ * - "openai" (default): api.openai.com with OPENAI_API_KEY
+ * - "openai-compatible": any OpenAI-style endpoint at LLM_BASE_URL (vLLM, Ollama, LM Studio, ...)
+ * - "mock": deterministic scripted replies, no network (dev/tests)
+ */
+
+export type LlmMessage = Readonly<{
+  role: "system" | "user" | "assistant";
+  content: string;
+}>;
+
+export type LlmRequest = Readonly<{
+  messages: readonly LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}>;
+
+export type LlmJsonRequest = LlmRequest &
+  Readonly<{
+    // Enforce this JSON Schema (structured outputs) instead of plain JSON mode
+    schema?: StructuredOutputSpec;
+  }>;
+
+export type LlmJsonOutput =
+  | Readonly<{ ok: true; value: unknown; raw: string }>
+  | Readonly<{ ok: false; raw: string }>;
+
+export type LlmProvider = Readonly<{
+  name: string;
+  model: string;
+  /** Plain text completion. */
+  complete: (req: LlmRequest) => Promise<string>;
+  /** JSON completion; `ok: false` when the model returned malformed JSON. */
+  completeJson: (req: LlmJsonRequest) => Promise<LlmJsonOutput>;
+  /** Streamed text completion (deltas in order). */
+  streamText: (req: LlmRequest) => AsyncIterable<string>;
+}>;
+
+export function parseJsonOutput(raw: string): LlmJsonOutput {
+  try {
+    return { ok: true, value: JSON.parse(raw), raw };
+  } catch {
+    return { ok: false, raw };
+  }
+}
+
+/* ----------------------------- Parse failure counters ----------------------------- */
+
+export type ParseFailureKind = "invalid_json" | "schema_mismatch";
+
+export type ParseFailureStats = {
+  invalid_json: number;
+  schema_mismatch: number;
+  repaired: number; // failures fixed by the repair retry
+};
+
+const parseFailures = new Map<string, ParseFailureStats>();
+
+/** Count a planner output that failed to parse/validate, keyed by provider:model. */
+export function recordParseFailure(provider: LlmProvider, kind: ParseFailureKind): void {
+  const key = `${provider.name}:${provider.model}`;
+  const stats = parseFailures.get(key) ?? { invalid_json: 0, schema_mismatch: 0, repaired: 0 };
+  stats[kind] += 1;
+  parseFailures.set(key, stats);
+}
+
+export function recordParseRepair(provider: LlmProvider): void {
+  const key = `${provider.name}:${provider.model}`;
+  const stats = parseFailures.get(key) ?? { invalid_json: 0, schema_mismatch: 0, repaired: 0 };
+  stats.repaired += 1;
+  parseFailures.set(key, stats);
+}
+
+export function getParseFailureStats(): Readonly<Record<string, Readonly<ParseFailureStats>>> {
+  return Object.fromEntries(parseFailures);
+}
+
+const DEFAULT_MODEL = "gpt-4.1-mini";
+
+/** Singleton provider (env-based). */
+let _provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (_provider) return _provider;
+
+  const model = env.LLM_MODEL ?? env.OPENAI_MODEL ?? DEFAULT_MODEL;
+  const structuredOutputs = env.LLM_STRUCTURED_OUTPUTS ?? true;
+
+  switch (env.LLM_PROVIDER ?? "openai") {
+    case "mock":
+      _provider = createMockProvider(env.LLM_MOCK_SCRIPT ? loadMockScript(env.LLM_MOCK_SCRIPT) : []);
+      break;
+    case "openai-compatible":
+      _provider = createOpenAiProvider({
+        name: "openai-compatible",
+        model,
+        structuredOutputs,
+        apiKey: env.LLM_API_KEY ?? env.OPENAI_API_KEY ?? "unused",
+        ...(env.LLM_BASE_URL ? { baseURL: env.LLM_BASE_URL } : {}),
+      });
+      break;
+    case "openai":
+      _provider = createOpenAiProvider({ name: "openai", model, structuredOutputs, apiKey: env.OPENAI_API_KEY ?? "" });
+      break;
+  }
+
+  return _provider;
+}
@@ -0,0 +1,111 @@
+// src/lib/llmMock.ts
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+import { parseJsonOutput, type LlmMessage, type LlmProvider, type LlmRequest } from "./llm";
+
+/**
+ * Deterministic offline provider (LLM_PROVIDER=mock).
+ *
+ * Rules are matched in order against the last user message (case-insensitive
+ * regex); `$1`..`$9` in replies are replaced with capture groups. Without a
+ * matching rule:
+ * - JSON requests get a QUESTION plan echoing the message
+ * - text requests get a short answer citing the first KB section in the prompt
+ *
+ * Script file (LLM_MOCK_SCRIPT):
+ *   [{ "match": "stake (\\d+)", "json": { "actionType": "STAKE", "amount": "$1", ... } },
+ *    { "match": "what is urano", "text": "Urano tokenizes RWAs. [source:intro]" }]
+ */
+
+const MockRuleSchema = z
+  .object({
+    match: z.string().min(1),
+    json: z.unknown().optional(),
+    text: z.string().optional(),
+  })
+  .refine((r) => r.json !== undefined || r.text !== undefined, "Rule needs `json` or `text`");
+
+export type MockRule = z.infer<typeof MockRuleSchema>;
+
+export function loadMockScript(file: string): MockRule[] {
+  const abs = path.resolve(process.cwd(), file);
+  const parsed = z.array(MockRuleSchema).safeParse(JSON.parse(fs.readFileSync(abs, "utf8")));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new Error(`Invalid LLM_MOCK_SCRIPT: ${issues}`);
+  }
+  return parsed.data;
+}
+
+function lastUserContent(messages: readonly LlmMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i]!;
+    if (m.role === "user") return m.content;
+  }
+  return "";
+}
+
+function substitute<T>(value: T, groups: readonly string[]): T {
+  if (typeof value === "string") {
+    return value.replace(/\$([1-9])/g, (_, n: string) => groups[Number(n)] ?? "") as T;
+  }
+  if (Array.isArray(value)) return value.map((v) => substitute(v, groups)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v, groups)])) as T;
+  }
+  return value;
+}
+
+export function createMockProvider(rules: readonly MockRule[]): LlmProvider {
+  const compiled = rules.map((r) => ({ rule: r, re: new RegExp(r.match, "i") }));
+
+  const find = (req: LlmRequest, kind: "json" | "text"): unknown => {
+    const last = lastUserContent(req.messages);
+    for (const { rule, re } of compiled) {
+      if (rule[kind] === undefined) continue;
+      const m = re.exec(last);
+      if (m) return substitute(rule[kind], [...m].map((g) => g ?? ""));
+    }
+    return undefined;
+  };
+
+  const text = (req: LlmRequest): string => {
+    const scripted = find(req, "text");
+    if (typeof scripted === "string") return scripted;
+
+    const prompt = req.messages.map((m) => m.content).join("\n");
+    const section = /\(section: ([a-z0-9-]+)\)/.exec(prompt)?.[1];
+    return section
+      ? `This is an offline mock answer based on the documentation. [source:${section}]`
+      : "This is an offline mock answer; no documentation excerpts were provided.";
+  };
+
+  return {
+    name: "mock",
+    model: "mock",
+
+    complete: async (req) => text(req),
+
+    completeJson: async (req) => {
+      const scripted = find(req, "json");
+      // Scripted strings are returned verbatim so scripts can exercise malformed-JSON handling
+      if (typeof scripted === "string") return parseJsonOutput(scripted);
+      if (scripted !== undefined) return { ok: true, value: scripted, raw: JSON.stringify(scripted) };
+
+      const last = lastUserContent(req.messages).trim().slice(0, 200);
+      const value = {
+        actionType: "QUESTION",
+        interpretation: "Offline mock planner (no scripted rule matched)",
+        userMessage: `Mock reply to: ${last || "(empty message)"}`,
+      };
+      return { ok: true, value, raw: JSON.stringify(value) };
+    },
+
+    streamText: async function* (req) {
+      // Word-sized chunks so /chat/stream clients see several deltas
+      for (const chunk of text(req).match(/\S+\s*/g) ?? []) yield chunk;
+    },
+  };
+}
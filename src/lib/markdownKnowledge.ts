@@ -0,0 +1,255 @@
+// src/lib/markdownKnowledge.ts
+import type { KnowledgePack, KnowledgeSection } from "./knowledgePack";
+
+/**
+ * Markdown docs -> KnowledgePack pieces (used by the kb:build CLI).
+ *
+ * Splitting rules:
+ * - `#` / `##` headings start a section (id = slug of the title); text before
+ *   the first heading becomes a section titled after the file.
+ * - First paragraph -> summary, list items -> bullets, everything else
+ *   (including `###`+ subsections) -> body.
+ * - A section (or file) named "FAQ" / "Frequently asked questions" yields FAQ
+ *   entries: `### Question` + answer text, or `Q:` / `A:` lines.
+ * - A section (or file) named "Glossary" yields entries from `- **Term**: definition`
+ *   list items, or `### Term` + definition text.
+ */
+
+export type MarkdownDoc = Readonly<{ name: string; content: string }>;
+
+type Block = Readonly<{ kind: "heading"; level: number; text: string } | { kind: "para" | "item"; text: string }>;
+
+type RawSection = { title: string; blocks: Block[] };
+
+const SUMMARY_MAX_CHARS = 800;
+
+export function slugify(s: string): string {
+  return s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function stripInline(s: string): string {
+  return s
+    .replace(/<[^>]+>/g, "")
+    .replace(/!\[[^\]]*]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(\*|_)(\S(?:.*?\S)?)\1/g, "$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function stripFrontMatter(content: string): string {
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, "");
+}
+
+function titleFromFileName(name: string): string {
+  const base = name.replace(/\.(md|mdx|markdown)$/i, "").replace(/^\d+[-_.\s]*/, "");
+  const words = base.replace(/[-_]+/g, " ").trim();
+  return words ? words[0]!.toUpperCase() + words.slice(1) : name;
+}
+
+function toBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  let para: string[] = [];
+  let inFence = false;
+
+  const flush = (): void => {
+    if (para.length > 0) blocks.push({ kind: "para", text: para.join(" ") });
+    para = [];
+  };
+
+  for (const line of stripFrontMatter(content).split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      if (line.trim()) para.push(line.trim());
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    const item = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+
+    if (heading) {
+      flush();
+      blocks.push({ kind: "heading", level: heading[1]!.length, text: stripInline(heading[2]!) });
+    } else if (item) {
+      flush();
+      blocks.push({ kind: "item", text: item[1]! });
+    } else if (!line.trim() || /^\s*(---|\*\*\*|___)\s*$/.test(line)) {
+      flush();
+    } else if (para.length === 0 && blocks[blocks.length - 1]?.kind === "item" && /^\s{2,}/.test(line)) {
+      // Continuation line of a list item
+      const prev = blocks.pop()!;
+      blocks.push({ kind: "item", text: `${prev.text} ${line.trim()}` });
+    } else {
+      para.push(line.trim());
+    }
+  }
+  flush();
+
+  return blocks
+    .map((b) => (b.kind === "heading" ? b : { ...b, text: stripInline(b.text) }))
+    .filter((b) => b.text.length > 0);
+}
+
+function splitSections(doc: MarkdownDoc): RawSection[] {
+  const sections: RawSection[] = [];
+  let cur: RawSection = { title: titleFromFileName(doc.name), blocks: [] };
+
+  for (const b of toBlocks(doc.content)) {
+    if (b.kind === "heading" && b.level <= 2) {
+      if (cur.blocks.length > 0) sections.push(cur);
+      cur = { title: b.text, blocks: [] };
+      continue;
+    }
+    cur.blocks.push(b);
+  }
+  if (cur.blocks.length > 0) sections.push(cur);
+
+  return sections;
+}
+
+const isFaqTitle = (t: string): boolean => /^(faqs?|frequently asked questions)\b/i.test(t.trim());
+const isGlossaryTitle = (t: string): boolean => /^glossary\b/i.test(t.trim());
+
+function faqFrom(blocks: readonly Block[]): Array<{ q: string; a: string }> {
+  const out: Array<{ q: string; a: string }> = [];
+  let q: string | null = null;
+  let a: string[] = [];
+
+  const flush = (): void => {
+    if (q && a.length > 0) out.push({ q, a: a.join(" ") });
+    q = null;
+    a = [];
+  };
+
+  for (const b of blocks) {
+    // "Q: ... A: ..." on consecutive lines ends up in one paragraph
+    const qLine = b.kind !== "heading" ? /^Q[:.]\s*(.+?)(?:\s+A[:.]\s*(.+))?$/i.exec(b.text) : null;
+    const aLine = b.kind !== "heading" ? /^A[:.]\s*(.+)$/i.exec(b.text) : null;
+
+    if (b.kind === "heading" || qLine) {
+      flush();
+      q = b.kind === "heading" ? b.text : qLine![1]!;
+      if (qLine?.[2]) a.push(qLine[2]);
+    } else if (q) {
+      a.push(aLine ? aLine[1]! : b.text);
+    }
+  }
+  flush();
+
+  return out;
+}
+
+function glossaryFrom(blocks: readonly Block[]): Array<{ term: string; definition: string }> {
+  const out: Array<{ term: string; definition: string }> = [];
+  let term: string | null = null;
+
+  for (const b of blocks) {
+    if (b.kind === "heading") {
+      term = b.text;
+      continue;
+    }
+
+    const entry = /^(.{1,80}?)\s*(?::|\s[-–—]\s)\s*(.+)$/.exec(b.text);
+    if (b.kind === "item" && entry) {
+      out.push({ term: entry[1]!, definition: entry[2]! });
+      term = null;
+    } else if (term) {
+      out.push({ term, definition: b.text });
+      term = null;
+    }
+  }
+
+  return out;
+}
+
+function toSection(raw: RawSection, id: string): KnowledgeSection | null {
+  const paras: string[] = [];
+  const bullets: string[] = [];
+
+  for (const b of raw.blocks) {
+    if (b.kind === "item") bullets.push(b.text);
+    else if (b.kind === "heading") paras.push(`${b.text}:`);
+    else paras.push(b.text);
+  }
+
+  // Summary is the first real paragraph (not a sub-heading label)
+  const summaryIndex = paras.findIndex((p) => !p.endsWith(":"));
+  const summary = summaryIndex >= 0 ? paras[summaryIndex]! : "";
+  const rest = paras.filter((_, i) => i !== summaryIndex).join("\n\n");
+
+  if (!summary && bullets.length === 0 && !rest) return null;
+
+  return {
+    id,
+    title: raw.title,
+    summary: summary.length > SUMMARY_MAX_CHARS ? `${summary.slice(0, SUMMARY_MAX_CHARS - 1).trimEnd()}…` : summary,
+    bullets,
+    ...(rest ? { body: rest } : {}),
+  };
+}
+
+export function knowledgeFromMarkdown(
+  docs: readonly MarkdownDoc[]
+): Pick<KnowledgePack, "sections" | "glossary" | "faq"> {
+  const sections: KnowledgeSection[] = [];
+  const glossary: Array<{ term: string; definition: string }> = [];
+  const faq: Array<{ q: string; a: string }> = [];
+  const usedIds = new Set<string>();
+
+  for (const doc of docs) {
+    const fileTitle = titleFromFileName(doc.name);
+
+    for (const raw of splitSections(doc)) {
+      // In a dedicated faq.md / glossary.md, `##` headings are the questions / terms themselves
+      const withTitle: Block[] = [{ kind: "heading", level: 2, text: raw.title }, ...raw.blocks];
+
+      if (isFaqTitle(raw.title) || isFaqTitle(fileTitle)) {
+        faq.push(...faqFrom(isFaqTitle(raw.title) ? raw.blocks : withTitle));
+        continue;
+      }
+      if (isGlossaryTitle(raw.title) || isGlossaryTitle(fileTitle)) {
+        glossary.push(...glossaryFrom(isGlossaryTitle(raw.title) ? raw.blocks : withTitle));
+        continue;
+      }
+
+      const base = slugify(raw.title) || "section";
+      let id = base;
+      for (let n = 2; usedIds.has(id); n++) id = `${base}-${n}`;
+
+      const section = toSection(raw, id);
+      if (!section) continue;
+      usedIds.add(id);
+      sections.push(section);
+    }
+  }
+
+  return { sections, glossary, faq };
+}
+
+/**
+ * Next pack version: date versions (YYYY-MM-DD) get a `.N` suffix when rebuilt
+ * the same day, semver bumps the patch, anything else restarts at today.
+ */
+export function nextKnowledgeVersion(previous: string | null, today: string): string {
+  const dated = previous ? /^(\d{4}-\d{2}-\d{2})(?:\.(\d+))?$/.exec(previous) : null;
+  if (dated) {
+    if (dated[1] !== today) return today;
+    return `${today}.${Number(dated[2] ?? "1") + 1}`;
+  }
+
+  const semver = previous ? /^(\d+)\.(\d+)\.(\d+)$/.exec(previous) : null;
+  if (semver) return `${semver[1]}.${semver[2]}.${Number(semver[3]) + 1}`;
+
+  return today;
+}
@@ -0,0 +1,203 @@
+// src/lib/offeringsCatalog.ts
+import { formatUnits, type Abi, type Address } from "viem";
+
+import { env } from "./env";
+import { optionalAddress } from "./addresses";
+import { publicClient } from "./chain";
+import { uShareMarketAbi } from "./abis";
+import type { UShareInfo } from "./chainReads";
+import type { TokenAmount } from "./portfolio";
+import { formatUnixTime, nowInSeconds } from "./time";
+import {
+  getUShareSaleWindow,
+  salePhaseLabel,
+  uShareStatusName,
+  uShareUnitPriceInUsdc,
+  type UShareSalePhase,
+  type UShareStatusName,
+} from "./uShareSale";
+import type { UShareOffering } from "../config/uShareOfferings";
+
+/**
+ * Live sale status for every registry offering, shared by GET /offerings and the
+ * planner prompt. One multicall (market constants + getuShareInfo per uShare),
+ * cached briefly so chat turns don't re-read it.
+ */
+
+const CACHE_TTL_MS = 15_000;
+
+export type OfferingSale = Readonly<{
+  status: UShareStatusName; // market enum
+  phase: UShareSalePhase; // derived from status, supply and the sale window
+  price: TokenAmount; // USDC for one whole uShare
+  total: TokenAmount;
+  sold: TokenAmount;
+  remaining: TokenAmount;
+  soldPercent: number;
+  startsAt: string;
+  preSaleEndsAt: string;
+  saleEndsAt: string | null; // null: no sale deadline
+  // Seconds until the current phase changes (start, end of pre-sale, end of sale); null when it won't
+  secondsRemaining: number | null;
+  minUranoForPreSale: TokenAmount;
+  redistribution: Readonly<{ active: boolean; usdcProfits: TokenAmount }>;
+}>;
+
+export type OfferingStatus = Readonly<{
+  uShareId: `0x${string}`;
+  name: string;
+  symbol: string;
+  uShareToken: Address;
+  decimals: number;
+  source: UShareOffering["source"];
+  sale: OfferingSale | null; // null when USHARE_MARKET is unset or the read failed
+}>;
+
+export type OfferingsCatalog = Readonly<{
+  asOf: string;
+  offerings: readonly OfferingStatus[];
+}>;
+
+let _cache: { at: number; key: string; catalog: OfferingsCatalog } | null = null;
+
+function amount(v: bigint, decimals: number): TokenAmount {
+  return { raw: v.toString(), formatted: formatUnits(v, decimals) };
+}
+
+function phaseDeadline(
+  phase: UShareSalePhase,
+  info: UShareInfo,
+  preSaleEndsAt: bigint,
+  saleEndsAt: bigint | null
+): bigint | null {
+  switch (phase) {
+    case "NOT_STARTED":
+      return info.startTime;
+    case "PRE_SALE":
+      return preSaleEndsAt;
+    case "PUBLIC_SALE":
+      return saleEndsAt;
+    default:
+      return null;
+  }
+}
+
+function toSale(
+  info: UShareInfo,
+  decimals: number,
+  market: Readonly<{ preSaleDuration: bigint; usdcDecimals: number; precision: bigint }>,
+  nowSec: bigint
+): OfferingSale {
+  const w = getUShareSaleWindow(info, market.preSaleDuration, nowSec);
+  const saleEndsAt = info.saleDuration > 0n ? w.saleEndsAt : null;
+  const deadline = phaseDeadline(w.phase, info, w.preSaleEndsAt, saleEndsAt);
+
+  const pricePerUShare = uShareUnitPriceInUsdc(decimals, info.uSharePrice, market.precision);
+  const soldBps = info.uShareAmount > 0n ? Number((info.uShareSold * 10_000n) / info.uShareAmount) : 0;
+
+  return {
+    status: uShareStatusName(info.status),
+    phase: w.phase,
+    price: amount(pricePerUShare, market.usdcDecimals),
+    total: amount(info.uShareAmount, decimals),
+    sold: amount(info.uShareSold, decimals),
+    remaining: amount(w.remaining, decimals),
+    soldPercent: soldBps / 100,
+    startsAt: formatUnixTime(info.startTime),
+    preSaleEndsAt: formatUnixTime(w.preSaleEndsAt),
+    saleEndsAt: saleEndsAt !== null ? formatUnixTime(saleEndsAt) : null,
+    secondsRemaining: deadline !== null && deadline > nowSec ? Number(deadline - nowSec) : null,
+    minUranoForPreSale: amount(info.minUranoAmountForPreSale, env.URANO_DECIMALS ?? 18),
+    redistribution: {
+      active: info.amountOfUSDCProfits > 0n,
+      usdcProfits: amount(info.amountOfUSDCProfits, market.usdcDecimals),
+    },
+  };
+}
+
+/** Throws when the chain can't be read at all (callers decide how to degrade). */
+export async function loadOfferingsCatalog(offerings: readonly UShareOffering[]): Promise<OfferingsCatalog> {
+  const market = optionalAddress(env.USHARE_MARKET);
+  const defaultDecimals = env.USHARE_DECIMALS ?? 18;
+
+  const key = `${market ?? ""}:${offerings.map((o) => o.uShareId).join(",")}`.toLowerCase();
+  if (_cache && _cache.key === key && Date.now() - _cache.at < CACHE_TTL_MS) return _cache.catalog;
+
+  const base = (o: UShareOffering): Omit<OfferingStatus, "sale"> => ({
+    uShareId: o.uShareId,
+    name: o.name,
+    symbol: o.symbol,
+    uShareToken: o.uShareToken,
+    decimals: o.decimals ?? defaultDecimals,
+    source: o.source,
+  });
+
+  const nowSec = nowInSeconds();
+  let entries: OfferingStatus[];
+
+  if (!market || offerings.length === 0) {
+    entries = offerings.map((o) => ({ ...base(o), sale: null }));
+  } else {
+    const call = (functionName: string, args: readonly unknown[] = []) => ({
+      address: market,
+      abi: uShareMarketAbi as Abi,
+      functionName,
+      args,
+    });
+
+    const results = await publicClient.multicall({
+      contracts: [
+        call("PRE_SALE_DURATION"),
+        call("i_usdcDecimals"),
+        call("USHARE_DECIMAL_PRECISION"),
+        ...offerings.map((o) => call("getuShareInfo", [o.uShareId])),
+      ],
+      allowFailure: true,
+    });
+
+    const value = (i: number): unknown => (results[i]?.status === "success" ? results[i]!.result : null);
+    const [preSaleDuration, usdcDecimals, precision] = [value(0), value(1), value(2)];
+
+    const constants =
+      typeof preSaleDuration === "bigint" && typeof usdcDecimals === "number" && typeof precision === "bigint"
+        ? { preSaleDuration, usdcDecimals, precision }
+        : null;
+
+    entries = offerings.map((o, i) => {
+      const info = value(3 + i) as UShareInfo | null;
+      const b = base(o);
+      return { ...b, sale: constants && info ? toSale(info, b.decimals, constants, nowSec) : null };
+    });
+  }
+
+  const catalog = { asOf: formatUnixTime(nowSec), offerings: entries };
+  _cache = { at: Date.now(), key, catalog };
+  return catalog;
+}
+
+/** One line per offering for the planner prompt. */
+export function formatCatalogForPrompt(catalog: OfferingsCatalog): string {
+  if (catalog.offerings.length === 0) return "No uShares are configured on backend.";
+
+  return catalog.offerings
+    .map((o) => {
+      const head = `${o.name} (${o.symbol}) ${o.uShareId}`;
+      const s = o.sale;
+      if (!s) return `${head}: live sale data unavailable`;
+
+      const parts = [
+        salePhaseLabel(s.phase),
+        `${s.price.formatted} USDC per uShare`,
+        `${s.sold.formatted}/${s.total.formatted} sold (${s.remaining.formatted} left)`,
+      ];
+      if (s.phase === "NOT_STARTED") parts.push(`opens ${s.startsAt}`);
+      if (s.phase === "PRE_SALE") {
+        parts.push(`public sale from ${s.preSaleEndsAt}, pre-sale needs ${s.minUranoForPreSale.formatted} URANO staked`);
+      }
+      if (s.phase === "PUBLIC_SALE" && s.saleEndsAt) parts.push(`ends ${s.saleEndsAt}`);
+      if (s.redistribution.active) parts.push(`payout active (${s.redistribution.usdcProfits.formatted} USDC)`);
+
+      return `${head}: ${parts.join(", ")}`;
+    })
+    .join(" | ");
+}
@@ -1,6 +1,57 @@
 import OpenAI from "openai";
-import { env } from "./env";
 
-export const openai = new OpenAI({
-  apiKey: env.OPENAI_API_KEY,
-});
+import { parseJsonOutput, type LlmProvider, type LlmRequest } from "./llm";
+
+type OpenAiProviderOptions = Readonly<{
+  name: string;
+  model: string;
+  apiKey: string;
+  baseURL?: string; // OpenAI-compatible servers
+  structuredOutputs: boolean; // json_schema response_format (else json_object)
+}>;
+
+export function createOpenAiProvider(opts: OpenAiProviderOptions): LlmProvider {
+  const client = new OpenAI({
+    apiKey: opts.apiKey,
+    ...(opts.baseURL ? { baseURL: opts.baseURL } : {}),
+  });
+
+  const params = (req: LlmRequest) => ({
+    model: opts.model,
+    messages: req.messages.map((m) => ({ role: m.role, content: m.content })),
+    ...(req.temperature !== undefined ? { temperature: req.temperature } : {}),
+    ...(req.maxTokens !== undefined ? { max_tokens: req.maxTokens } : {}),
+  });
+  const reqOpts = (req: LlmRequest) => (req.signal ? { signal: req.signal } : undefined);
+
+  return {
+    name: opts.name,
+    model: opts.model,
+
+    complete: async (req) => {
+      const resp = await client.chat.completions.create(params(req), reqOpts(req));
+      return resp.choices?.[0]?.message?.content ?? "";
+    },
+
+    completeJson: async (req) => {
+      const response_format =
+        req.schema && opts.structuredOutputs
+          ? {
+              type: "json_schema" as const,
+              json_schema: { name: req.schema.name, schema: req.schema.schema, strict: true },
+            }
+          : { type: "json_object" as const };
+
+      const resp = await client.chat.completions.create({ ...params(req), response_format }, reqOpts(req));
+      return parseJsonOutput(resp.choices?.[0]?.message?.content ?? "{}");
+    },
+
+    streamText: async function* (req) {
+      const stream = await client.chat.completions.create({ ...params(req), stream: true }, reqOpts(req));
+      for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta?.content ?? "";
+        if (delta) yield delta;
+      }
+    },
+  };
+}
@@ -0,0 +1,113 @@
+// src/lib/planWarnings.ts
+
+/**
+ * Typed warnings attached to chat plans. `code` is stable API: clients switch on
+ * it, never on `message` (English, may be reworded). Severity is fixed per code:
+ * - blocking: the request (or that step of it) can't go through as asked; no txs
+ *   are built for it, or the ones built are expected to revert
+ * - warning: txs are fine, but the user should read this before signing
+ * - info: context about what was prepared
+ *
+ * Add codes freely; never rename or repurpose one.
+ */
+export const PLAN_WARNING_SEVERITY = {
+  // Request is missing something the action needs
+  MISSING_AMOUNT: "blocking",
+  INVALID_AMOUNT: "blocking", // not a plain decimal or percentage
+  MISSING_USHARE_ID: "blocking",
+  AMBIGUOUS_USHARE: "blocking", // several uShares match; see `clarification`
+  MISSING_PROPOSAL: "blocking",
+  NO_OPEN_PROPOSALS: "blocking",
+  MISSING_VOTE_PARAMS: "blocking",
+  MISSING_DELEGATEE: "blocking",
+  ACCOUNT_REQUIRED: "blocking", // context.account is needed for this action
+  VESTING_RECORD_REQUIRED: "blocking", // context.vesting is needed (no server-side lookup)
+
+  // Account state doesn't allow the action
+  INSUFFICIENT_BALANCE: "blocking", // see `offer` for an adjusted plan when there is one
+  BALANCE_UNAVAILABLE: "blocking", // a share of a balance was asked for but it couldn't be read
+  NOTHING_TO_STAKE: "blocking",
+  NOTHING_TO_UNSTAKE: "blocking",
+  NOTHING_TO_CLAIM: "blocking",
+  NO_USHARES_HELD: "blocking",
+  VESTING_ALLOCATION_NOT_FOUND: "blocking",
+  BENEFICIARY_MISMATCH: "blocking",
+  PRESALE_NOT_ELIGIBLE: "blocking",
+
+  // Market / governance state doesn't allow the action
+  PROPOSAL_CLOSED: "blocking",
+  PROPOSAL_NOT_FOUND: "blocking",
+  SALE_NOT_ACTIVE: "blocking",
+  SALE_NOT_STARTED: "blocking",
+  SALE_ENDED: "blocking",
+  SOLD_OUT: "blocking",
+  EXCEEDS_REMAINING_SUPPLY: "blocking",
+  BELOW_MINIMUM_PURCHASE: "blocking",
+  NO_ACTIVE_PAYOUT: "blocking",
+
+  // Building / simulating
+  TX_BUILD_FAILED: "blocking",
+  STEP_SKIPPED: "blocking",
+  SIMULATION_REVERTED: "blocking",
+
+  // Read before signing
+  NO_REWARDS_YET: "warning",
+  NOT_DELEGATED: "warning",
+  NO_VOTING_POWER: "warning",
+  SUPPLY_CAPPED: "warning",
+  BALANCE_NOT_CHECKED: "warning", // a balance or price read failed, so the amount wasn't checked
+  UNCITED_ANSWER: "warning",
+
+  // Context
+  APPROVAL_INCLUDED: "info",
+  ALLOWANCE_NOT_CHECKED: "info",
+  MULTIPLE_TXS: "info",
+  USHARE_SELECTED: "info",
+  PRESALE_ELIGIBLE: "info",
+  VOTING_POWER: "info",
+  REWARDS_NOT_SHOWN: "info",
+  PERCENT_RESOLVED: "info",
+  BALANCE_CHECK_SKIPPED: "info", // no account connected, or balances unreadable
+  SIMULATION_SKIPPED: "info",
+  CITATIONS_REMOVED: "info",
+  PLANNER_UNAVAILABLE: "info",
+  PLANNER_NOTE: "info", // free text from the planner model
+} as const satisfies Record<string, PlanWarningSeverity>;
+
+export type PlanWarningSeverity = "blocking" | "warning" | "info";
+
+export type PlanWarningCode = keyof typeof PLAN_WARNING_SEVERITY;
+
+export type PlanWarningParams = Readonly<Record<string, string | number | boolean>>;
+
+export type PlanWarning = Readonly<{
+  code: PlanWarningCode;
+  severity: PlanWarningSeverity;
+  message: string;
+  params?: PlanWarningParams;
+}>;
+
+export function planWarning(code: PlanWarningCode, message: string, params?: PlanWarningParams): PlanWarning {
+  return { code, severity: PLAN_WARNING_SEVERITY[code], message, ...(params ? { params } : {}) };
+}
+
+/** Free-text warning from the planner model. */
+export function plannerNote(message: string): PlanWarning {
+  return planWarning("PLANNER_NOTE", message);
+}
+
+export function isBlocking(w: PlanWarning): boolean {
+  return w.severity === "blocking";
+}
+
+/** v2 response shape: blocking issues apart from everything else. */
+export function splitWarnings(
+  warnings: readonly PlanWarning[]
+): Readonly<{ blockers: PlanWarning[]; warnings: PlanWarning[] }> {
+  return { blockers: warnings.filter(isBlocking), warnings: warnings.filter((w) => !isBlocking(w)) };
+}
+
+/** v1 response shape: messages only, in order. */
+export function warningMessages(warnings: readonly PlanWarning[]): string[] {
+  return warnings.map((w) => w.message);
+}
@@ -0,0 +1,168 @@
+// src/lib/portfolio.ts
+import { formatUnits, type Abi, type Address, type ContractFunctionParameters } from "viem";
+
+import { env } from "./env";
+import { optionalAddress } from "./addresses";
+import { publicClient } from "./chain";
+import {
+  erc20Abi,
+  stakingAbi,
+  uShareMarketAbi,
+  uranoTokenAbi,
+  vestingAbi,
+} from "./abis";
+import type { StakingUserInfo } from "./chainReads";
+import { findVestingAllocation } from "./vestingAllocations";
+import type { UShareOffering } from "../config/uShareOfferings";
+
+/**
+ * One-shot account snapshot (everything the assistant talks about),
+ * read in a single multicall. Missing config or failed reads come back as null.
+ */
+
+export type TokenAmount = Readonly<{ raw: string; formatted: string }>;
+
+export type AccountPortfolio = Readonly<{
+  account: Address;
+  chainId: number;
+  urano: Readonly<{ balance: TokenAmount | null; votingPower: TokenAmount | null; delegate: Address | null }>;
+  staking: Readonly<{ staked: TokenAmount | null; rewardEarned: TokenAmount | null }>;
+  usdc: Readonly<{ balance: TokenAmount | null; allowanceToMarket: TokenAmount | null; decimals: number }>;
+  uShares: ReadonlyArray<
+    Readonly<{ name: string; symbol: string; uShareId: `0x${string}`; token: Address; balance: TokenAmount | null }>
+  >;
+  vesting: Readonly<{ totalClaimed: TokenAmount | null; claimable: TokenAmount | null }> | null;
+}>;
+
+type KeyedCall = Readonly<{ key: string; call: ContractFunctionParameters }>;
+
+function toInt(v: unknown, fallback: number): number {
+  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v.trim()) : NaN;
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+function amount(v: unknown, decimals: number): TokenAmount | null {
+  if (typeof v !== "bigint") return null;
+  return { raw: v.toString(), formatted: formatUnits(v, decimals) };
+}
+
+export async function loadAccountPortfolio(
+  account: Address,
+  offerings: readonly UShareOffering[]
+): Promise<AccountPortfolio> {
+  const URANO = optionalAddress(env.URANO_TOKEN);
+  const STAKING = optionalAddress(env.URANO_STAKING);
+  const MARKET = optionalAddress(env.USHARE_MARKET);
+  const USDC = optionalAddress(env.USDC);
+  const VESTING = optionalAddress(env.VESTING_ADDRESS);
+
+  const uranoDecimals = toInt(env.URANO_DECIMALS, 18);
+  const defaultUShareDecimals = toInt(env.USHARE_DECIMALS, 18);
+
+  const calls: KeyedCall[] = [];
+  const add = (key: string, address: Address, abi: Abi, functionName: string, args: readonly unknown[]): void => {
+    calls.push({ key, call: { address, abi, functionName, args } });
+  };
+
+  if (URANO) {
+    add("urano.balance", URANO, uranoTokenAbi, "balanceOf", [account]);
+    add("urano.votes", URANO, uranoTokenAbi, "getVotes", [account]);
+    add("urano.delegate", URANO, uranoTokenAbi, "delegates", [account]);
+  }
+  if (STAKING) {
+    add("staking.userInfo", STAKING, stakingAbi, "userInfo", [account]);
+  }
+  if (USDC) {
+    add("usdc.balance", USDC, erc20Abi as unknown as Abi, "balanceOf", [account]);
+    if (MARKET) add("usdc.allowance", USDC, erc20Abi as unknown as Abi, "allowance", [account, MARKET]);
+  }
+  if (MARKET) {
+    add("market.usdcDecimals", MARKET, uShareMarketAbi, "i_usdcDecimals", []);
+  }
+  offerings.forEach((o, i) => {
+    add(`ushare.${i}`, o.uShareToken, erc20Abi as unknown as Abi, "balanceOf", [account]);
+  });
+
+  const allocation = findVestingAllocation(account);
+  if (VESTING) {
+    add("vesting.totalClaimed", VESTING, vestingAbi, "totalClaimed", [account]);
+    if (allocation) {
+      const d = allocation.data;
+      const tuple = {
+        beneficiary: d.beneficiary,
+        totalAmount: BigInt(d.totalAmount),
+        cliffInSeconds: BigInt(d.cliffInSeconds),
+        vestingInSeconds: BigInt(d.vestingInSeconds),
+        tgePercentage: BigInt(d.tgePercentage),
+      };
+      add("vesting.claimable", VESTING, vestingAbi, "claimable", [tuple, allocation.merkleProof]);
+    }
+  }
+
+  const results =
+    calls.length > 0
+      ? await publicClient.multicall({ contracts: calls.map((c) => c.call), allowFailure: true })
+      : [];
+
+  const get = (key: string): unknown => {
+    const i = calls.findIndex((c) => c.key === key);
+    const r = i >= 0 ? results[i] : undefined;
+    return r && r.status === "success" ? r.result : null;
+  };
+
+  const usdcDecimalsRaw = get("market.usdcDecimals");
+  const usdcDecimals = typeof usdcDecimalsRaw === "number" ? usdcDecimalsRaw : 6;
+  const userInfo = get("staking.userInfo") as StakingUserInfo | null;
+  const delegate = get("urano.delegate");
+
+  return {
+    account,
+    chainId: env.CHAIN_ID,
+    urano: {
+      balance: amount(get("urano.balance"), uranoDecimals),
+      votingPower: amount(get("urano.votes"), uranoDecimals),
+      delegate: typeof delegate === "string" ? (delegate as Address) : null,
+    },
+    staking: {
+      staked: amount(userInfo?.stakedAmount, uranoDecimals),
+      rewardEarned: amount(userInfo?.rewardEarned, uranoDecimals),
+    },
+    usdc: {
+      balance: amount(get("usdc.balance"), usdcDecimals),
+      allowanceToMarket: amount(get("usdc.allowance"), usdcDecimals),
+      decimals: usdcDecimals,
+    },
+    uShares: offerings.map((o, i) => ({
+      name: o.name,
+      symbol: o.symbol,
+      uShareId: o.uShareId,
+      token: o.uShareToken,
+      balance: amount(get(`ushare.${i}`), o.decimals ?? defaultUShareDecimals),
+    })),
+    vesting: VESTING
+      ? {
+          totalClaimed: amount(get("vesting.totalClaimed"), uranoDecimals),
+          claimable: amount(get("vesting.claimable"), uranoDecimals),
+        }
+      : null,
+  };
+}
+
+/**
+ * Compact one-line summary for the planner prompt.
+ */
+export function formatPortfolioForPrompt(p: AccountPortfolio): string {
+  const v = (a: TokenAmount | null): string => (a ? a.formatted : "unknown");
+
+  const parts = [
+    `URANO wallet ${v(p.urano.balance)}`,
+    `voting power ${v(p.urano.votingPower)}`,
+    `staked ${v(p.staking.staked)}`,
+    `staking rewards ${v(p.staking.rewardEarned)}`,
+    `USDC ${v(p.usdc.balance)}`,
+    ...p.uShares.map((u) => `${u.symbol} ${v(u.balance)}`),
+  ];
+  if (p.vesting) parts.push(`vesting claimable ${v(p.vesting.claimable)}`);
+
+  return `Connected account ${p.account}: ${parts.join(", ")}`;
+}
@@ -0,0 +1,144 @@
+// src/lib/proposals.ts
+import type { Address } from "viem";
+
+import { readProposal, readProposalCount, type GovernanceProposal } from "./chainReads";
+import { formatUnixTime, nowInSeconds } from "./time";
+
+/**
+ * Governance proposal discovery for VOTE planning.
+ *
+ * - Loads the most recent proposals via proposalCount/getProposal.
+ * - Cached for a short TTL so every chat turn doesn't hit the RPC N times.
+ * - Resolves "the treasury proposal" / "the latest one" to a proposalId.
+ */
+
+const MAX_PROPOSALS_SCANNED = 20;
+const CACHE_TTL_MS = 30_000;
+
+let _cache: { at: number; governance: string; proposals: readonly GovernanceProposal[] } | null = null;
+
+/** Most recent proposals first. Ids without a proposal (zeroed struct) are skipped. */
+export async function loadRecentProposals(governance: Address): Promise<readonly GovernanceProposal[]> {
+  const key = governance.toLowerCase();
+  if (_cache && _cache.governance === key && Date.now() - _cache.at < CACHE_TTL_MS) {
+    return _cache.proposals;
+  }
+
+  const count = await readProposalCount(governance);
+  const lowest = count > BigInt(MAX_PROPOSALS_SCANNED) ? count - BigInt(MAX_PROPOSALS_SCANNED) : 0n;
+
+  // Ids may be 0- or 1-based; scanning [lowest, count] covers both.
+  const ids: bigint[] = [];
+  for (let id = count; id >= lowest; id -= 1n) {
+    ids.push(id);
+    if (id === 0n) break;
+  }
+
+  const settled = await Promise.allSettled(ids.map((id) => readProposal(governance, id)));
+  const proposals = settled
+    .flatMap((r) => (r.status === "fulfilled" ? [r.value] : []))
+    .filter((p) => !isEmptyProposal(p));
+
+  _cache = { at: Date.now(), governance: key, proposals };
+  return proposals;
+}
+
+/** getProposal returns a zeroed struct for ids that were never created. */
+export function isEmptyProposal(p: GovernanceProposal): boolean {
+  return p.startTime === 0n && p.description.trim() === "";
+}
+
+export function isProposalOpen(p: GovernanceProposal, nowSec: bigint = nowInSeconds()): boolean {
+  return !p.finalized && nowSec >= p.startTime && nowSec < p.endTime;
+}
+
+export function openProposals(proposals: readonly GovernanceProposal[]): readonly GovernanceProposal[] {
+  const now = nowInSeconds();
+  return proposals.filter((p) => isProposalOpen(p, now));
+}
+
+/**
+ * Why a vote on this proposal would revert, or null when voting is open.
+ */
+export function proposalClosedReason(p: GovernanceProposal, nowSec: bigint = nowInSeconds()): string | null {
+  if (p.finalized) return `Proposal #${p.id} is already finalized.`;
+  if (nowSec >= p.endTime) return `Voting on proposal #${p.id} ended at ${formatUnixTime(p.endTime)}.`;
+  if (nowSec < p.startTime) return `Voting on proposal #${p.id} starts at ${formatUnixTime(p.startTime)}.`;
+  return null;
+}
+
+export function formatProposalsForPrompt(proposals: readonly GovernanceProposal[]): string {
+  if (proposals.length === 0) return "No open governance proposals.";
+  return proposals
+    .map((p) => `#${p.id} "${p.description.slice(0, 160)}" (ends ${formatUnixTime(p.endTime)})`)
+    .join(" | ");
+}
+
+function tokens(s: string): string[] {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((t) => t.length >= 3);
+}
+
+const RecencyWords = /\b(latest|last|newest|most recent|recent|current|new)\b/i;
+
+// Words that appear in every vote request and carry no signal about which proposal.
+const StopWords = new Set([
+  "vote",
+  "yes",
+  "against",
+  "for",
+  "the",
+  "proposal",
+  "one",
+  "and",
+  "please",
+  "want",
+  "approve",
+  "support",
+  "reject",
+]);
+
+/**
+ * Resolve a proposal id from free text among open proposals.
+ * Priority:
+ *  1) "#12" / "proposal 12" style ids
+ *  2) best description token overlap (ties go to the newer proposal)
+ *  3) recency words ("latest", "last") -> highest open id
+ *  otherwise null, so the caller asks which proposal (even when only one is open)
+ *
+ * Recency words are common ("the new treasury proposal"), so they only decide
+ * when nothing in the description matches.
+ */
+export function resolveProposalIdFromText(
+  proposals: readonly GovernanceProposal[],
+  text: string
+): bigint | null {
+  const explicit = text.match(/(?:#|proposal\s*(?:id\s*)?)(\d+)\b/i)?.[1];
+  if (explicit) return BigInt(explicit);
+
+  if (proposals.length === 0) return null;
+
+  const msg = new Set(tokens(text).filter((t) => !StopWords.has(t) && !RecencyWords.test(t)));
+  let best: GovernanceProposal | null = null;
+  let bestScore = 0;
+
+  for (const p of proposals) {
+    let score = 0;
+    for (const t of new Set(tokens(p.description))) {
+      if (msg.has(t)) score += 1;
+    }
+    if (score > bestScore || (score > 0 && score === bestScore && best !== null && p.id > best.id)) {
+      bestScore = score;
+      best = p;
+    }
+  }
+
+  if (best) return best.id;
+  if (RecencyWords.test(text)) {
+    return proposals.reduce((a, b) => (b.id > a.id ? b : a)).id;
+  }
+  return null;
+}
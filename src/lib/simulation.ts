@@ -0,0 +1,155 @@
+// src/lib/simulation.ts
+import { BaseError, decodeErrorResult, type Abi, type Address, type Hex } from "viem";
+
+import { publicClient } from "./chain";
+import {
+  erc20Abi,
+  governanceAbi,
+  stakingAbi,
+  uShareFactoryAbi,
+  uShareMarketAbi,
+  uranoTokenAbi,
+  vestingAbi,
+} from "./abis";
+
+/**
+ * Pre-flight simulation of tx previews (eth_call from the user's account).
+ *
+ * - Bundles are simulated in order with eth_simulateV1 so an approval is
+ *   visible to the tx that spends it.
+ * - RPCs without eth_simulateV1 fall back to one eth_call per tx; txs that
+ *   follow an approval in the same bundle are then marked as skipped.
+ * - Revert data is decoded against every bundled ABI's custom errors.
+ */
+
+export type TxSimulation = Readonly<{
+  ok: boolean;
+  error?: string; // custom error name, revert reason, or RPC message
+  gasEstimate?: string;
+  skipped?: boolean;
+}>;
+
+export type SimulatableTx = Readonly<{
+  to: Address;
+  data: Hex;
+  value: string;
+}>;
+
+const errorsAbi: Abi = [
+  uranoTokenAbi,
+  stakingAbi,
+  uShareMarketAbi,
+  uShareFactoryAbi,
+  vestingAbi,
+  governanceAbi,
+  erc20Abi as unknown as Abi,
+]
+  .flat()
+  .filter((item): item is Extract<Abi[number], { type: "error" }> => item.type === "error")
+  // Same error name can appear in several ABIs (Ownable, SafeERC20)
+  .filter((item, i, all) => all.findIndex((o) => o.name === item.name) === i);
+
+const APPROVE_SELECTOR = "0x095ea7b3";
+
+export function decodeRevertData(data: Hex | undefined): string | null {
+  if (!data || data === "0x") return null;
+  try {
+    const decoded = decodeErrorResult({ abi: errorsAbi, data });
+    if (decoded.errorName === "Error" && typeof decoded.args?.[0] === "string") return decoded.args[0];
+    return decoded.errorName;
+  } catch {
+    return null;
+  }
+}
+
+function revertDataFromError(e: unknown): Hex | undefined {
+  if (!(e instanceof BaseError)) return undefined;
+  const withData = e.walk((err) => typeof (err as { data?: unknown }).data === "string");
+  const data = (withData as { data?: unknown } | null)?.data;
+  return typeof data === "string" && data.startsWith("0x") ? (data as Hex) : undefined;
+}
+
+function errorMessage(e: unknown): string {
+  if (e instanceof BaseError) return e.shortMessage;
+  return e instanceof Error ? e.message : String(e);
+}
+
+async function simulateBundle(account: Address, txs: readonly SimulatableTx[]): Promise<TxSimulation[]> {
+  const { results } = await publicClient.simulateCalls({
+    account,
+    calls: txs.map((t) => ({ to: t.to, data: t.data, value: BigInt(t.value) })),
+  });
+
+  return results.map((r) =>
+    r.status === "success"
+      ? { ok: true, gasEstimate: r.gasUsed.toString() }
+      : { ok: false, error: decodeRevertData(r.data) ?? errorMessage(r.error) }
+  );
+}
+
+async function simulateOne(account: Address, tx: SimulatableTx): Promise<TxSimulation> {
+  const req = { account, to: tx.to, data: tx.data, value: BigInt(tx.value) };
+  try {
+    await publicClient.call(req);
+    const gas = await publicClient.estimateGas(req);
+    return { ok: true, gasEstimate: gas.toString() };
+  } catch (e) {
+    return { ok: false, error: decodeRevertData(revertDataFromError(e)) ?? errorMessage(e) };
+  }
+}
+
+export async function simulateTxs(account: Address, txs: readonly SimulatableTx[]): Promise<TxSimulation[]> {
+  if (txs.length === 0) return [];
+
+  try {
+    return await simulateBundle(account, txs);
+  } catch {
+    // eth_simulateV1 unsupported: fall back to independent eth_calls
+  }
+
+  const out: TxSimulation[] = [];
+  let afterApproval = false;
+
+  for (const tx of txs) {
+    if (afterApproval) {
+      out.push({ ok: false, skipped: true, error: "Not simulated: depends on the approval before it." });
+      continue;
+    }
+    out.push(await simulateOne(account, tx));
+    if (tx.data.startsWith(APPROVE_SELECTOR)) afterApproval = true;
+  }
+
+  return out;
+}
+
+/**
+ * Known reverts -> user-facing explanations. Unknown errors pass through as-is.
+ */
+const FRIENDLY_REVERTS: Readonly<Record<string, string>> = {
+  Staking__InsufficientStakedAmount: "You don't have that much URANO staked.",
+  Staking__MinimunDurationNotPassed: "Your stake hasn't reached the minimum staking duration yet.",
+  Staking__NoRewards: "You have no staking rewards to claim yet.",
+  Staking__ZeroAmount: "The amount must be greater than zero.",
+  ERC20InsufficientBalance: "Your token balance is too low for this transaction.",
+  ERC20InsufficientAllowance: "The token allowance is too low; approve first.",
+  SafeERC20FailedOperation: "A token transfer failed (check your balance and allowance).",
+  UranoGovernance__AlreadyVoted: "You have already voted on this proposal.",
+  UranoGovernance__NoVotingPower: "You have no voting power for this proposal.",
+  UranoGovernance__VoteAlreadyFinalised: "This proposal is already finalized.",
+  UranoGovernance__VotingEnded: "Voting on this proposal has ended.",
+  UranoGovernance__VotingNotStarted: "Voting on this proposal has not started yet.",
+  uShareMarket__InsufficientUsdcBalance: "Your USDC balance is too low for this purchase.",
+  uShareMarket__InsufficientuShareAmount: "Not enough uShares are left for this amount.",
+  uShareMarket__InvalidAmountInStaking: "You don't have enough URANO staked to join this pre-sale.",
+  uShareMarket__InvaliduShareId: "This uShareId does not exist on the market.",
+  uShareMarket__TooSmalluShareAmount: "The uShare amount is below the minimum purchase.",
+  uShareMarket__ZeroAmount: "The amount must be greater than zero.",
+  uShareMarket__uShareNotActive: "This uShare sale is not active.",
+  uShareMarket__uSharePublicSaleNotStarted: "The public sale for this uShare has not started yet.",
+  uShareMarket__NoCashflow: "This uShare has no cashflow to redistribute.",
+  uShareMarket__RedistributionNotActive: "There is no active redistribution for this uShare.",
+};
+
+export function friendlyRevertMessage(error: string): string {
+  return FRIENDLY_REVERTS[error] ?? `The transaction would revert: ${error}.`;
+}
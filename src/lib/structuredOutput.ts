@@ -0,0 +1,88 @@
+// src/lib/structuredOutput.ts
+import { z } from "zod";
+
+/**
+ * JSON Schemas for LLM structured outputs, generated from zod schemas so the
+ * prompt, the provider's response_format and our validator can't drift apart.
+ *
+ * Strict structured outputs (OpenAI) need every property listed in `required`,
+ * `additionalProperties: false`, and only a subset of keywords. Optional fields
+ * therefore become nullable; `dropNulls` undoes that before zod validation.
+ * Dropped keywords (pattern, lengths, formats) are still enforced by zod.
+ */
+
+export type JsonSchema = { [key: string]: unknown };
+
+export type StructuredOutputSpec = Readonly<{ name: string; schema: JsonSchema }>;
+
+const STRICT_KEYWORDS = new Set([
+  "type",
+  "properties",
+  "required",
+  "enum",
+  "const",
+  "anyOf",
+  "items",
+  "description",
+  "additionalProperties",
+]);
+
+/** Full JSON Schema of the model-facing input shape (used in prompts). */
+export function jsonSchemaOf(schema: z.ZodType): JsonSchema {
+  const { $schema: _ignored, ...rest } = z.toJSONSchema(schema, { io: "input" }) as JsonSchema;
+  return rest;
+}
+
+function isSchemaObject(v: unknown): v is JsonSchema {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  const { anyOf, description, ...rest } = schema;
+  const variants = Array.isArray(anyOf) ? anyOf : [rest];
+  return { ...(description !== undefined ? { description } : {}), anyOf: [...variants, { type: "null" }] };
+}
+
+export function toStrictJsonSchema(schema: JsonSchema): JsonSchema {
+  const out: JsonSchema = {};
+  for (const [k, v] of Object.entries(schema)) {
+    if (STRICT_KEYWORDS.has(k)) out[k] = v;
+  }
+
+  if (isSchemaObject(out.items)) out.items = toStrictJsonSchema(out.items);
+  if (Array.isArray(out.anyOf)) {
+    out.anyOf = out.anyOf.map((s) => (isSchemaObject(s) ? toStrictJsonSchema(s) : s));
+  }
+
+  if (isSchemaObject(out.properties)) {
+    const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+    const props: JsonSchema = {};
+
+    for (const [key, sub] of Object.entries(out.properties)) {
+      if (!isSchemaObject(sub)) continue;
+      const strict = toStrictJsonSchema(sub);
+      props[key] = required.has(key) ? strict : nullable(strict);
+    }
+
+    out.properties = props;
+    out.required = Object.keys(props);
+    out.additionalProperties = false;
+  }
+
+  return out;
+}
+
+export function structuredOutputFor(name: string, schema: z.ZodType): StructuredOutputSpec {
+  return { name, schema: toStrictJsonSchema(jsonSchemaOf(schema)) };
+}
+
+/** Remove null-valued keys (strict-mode placeholders for omitted optional fields). */
+export function dropNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(dropNulls);
+  if (!isSchemaObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, v]) => v !== null)
+      .map(([k, v]) => [k, dropNulls(v)])
+  );
+}
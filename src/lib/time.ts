@@ -0,0 +1,9 @@
+// src/lib/time.ts
+
+export function nowInSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+export function formatUnixTime(sec: bigint): string {
+  return new Date(Number(sec) * 1000).toISOString().replace(".000Z", "Z");
+}
@@ -1,232 +1,276 @@
 // src/lib/uShareRegistry.ts
-import { z } from "zod";
-import type { Address } from "viem";
+import { getAddress, parseAbiItem, type Abi, type Address, type ContractFunctionParameters } from "viem";
+
+import { env } from "./env";
+import { optionalAddress } from "./addresses";
+import { publicClient } from "./chain";
+import { erc20Abi, uShareFactoryAbi, uShareMarketAbi } from "./abis";
+import type { UShareInfo } from "./chainReads";
+import {
+  parseOfferingsEnv,
+  type UShareOffering,
+  type UShareOfferingConfig,
+} from "../config/uShareOfferings";
 
 /**
- * uShare offerings registry.
+ * The uShare registry: USHARE_OFFERINGS_JSON merged with offerings created by the
+ * factory (uShareCreated events + s_uShareId), enriched with getuShareInfo and the
+ * token's name/symbol/decimals. Refreshed on a TTL, so a new uShare shows up
+ * without a redeploy.
  *
- * Purpose:
- * - Map human inputs (name/symbol) -> uShareId (bytes32)
- * - Allow env-based configuration without changing env.ts
- *
- * Expected env (optional):
- * - USHARE_OFFERINGS_JSON : JSON string of array entries, e.g.
- *   [
- *     {"name":"Milano Condo","symbol":"MILANO","uShareId":"0x...","uShareToken":"0x..."},
- *     {"name":"Default uShare","symbol":"USHARE","uShareId":"8848...","uShareToken":"0x..."}
- *   ]
- *
- * Notes:
- * - uShareId can be:
- *   - bytes32 hex: 0x + 64 hex chars
- *   - or a decimal string (your script logs it as uint256), which we convert to bytes32.
+ * - Env entries win for name/symbol (curated labels); the chain wins for token/decimals.
+ * - Factory logs are scanned in the background from USHARE_FACTORY_FROM_BLOCK, in
+ *   bounded block ranges (providers reject large ones). Requests never wait for the
+ *   scan: they get the offerings found so far, and the cache is dropped when the
+ *   scan finds new ones.
+ * - When the chain can't be read, the last good list is kept (or the env entries
+ *   that are complete on their own) and retried sooner.
  */
 
-const AddressSchema = z
-  .string()
-  .regex(/^0x[a-fA-F0-9]{40}$/, "Invalid EVM address")
-  .transform((s) => s as Address);
-
-const Bytes32HexSchema = z
-  .string()
-  .regex(/^0x[a-fA-F0-9]{64}$/, "Invalid bytes32 hex")
-  .transform((s) => s as `0x${string}`);
-
-const DecimalUintStringSchema = z.string().regex(/^\d+$/, "Expected a decimal uint string");
-
-const UShareOfferingInputSchema = z.object({
-  name: z.string().min(1).max(80),
-  symbol: z.string().min(1).max(20).optional(),
-  uShareId: z.union([Bytes32HexSchema, DecimalUintStringSchema]),
-  uShareToken: AddressSchema.optional(),
-});
-
-export type UShareOffering = Readonly<{
-  name: string;
-  symbol?: string;
-  uShareId: `0x${string}`; // bytes32 hex
-  uShareToken?: Address;
-}>;
-
-export type UShareRegistry = Readonly<{
-  offerings: readonly UShareOffering[];
-}>;
-
-function normalizeText(s: string): string {
-  return s.trim().toLowerCase().replace(/\s+/g, " ");
-}
+const DEFAULT_TTL_SEC = 300;
+const DEGRADED_TTL_MS = 30_000;
 
-export function decimalToBytes32Hex(dec: string): `0x${string}` {
-  const n = BigInt(dec);
-  if (n < 0n) throw new Error("uShareId decimal must be >= 0");
-  const hex = n.toString(16);
-  if (hex.length > 64) throw new Error("uShareId is too large for bytes32");
-  return (`0x${hex.padStart(64, "0")}`) as `0x${string}`;
-}
+const LOG_CHUNK_BLOCKS = 10_000n;
 
-export function coerceUShareId(v: string): `0x${string}` | null {
-  const s = v.trim();
-  if (/^0x[a-fA-F0-9]{64}$/.test(s)) return s as `0x${string}`;
-  if (/^\d+$/.test(s)) return decimalToBytes32Hex(s);
-  return null;
-}
+const ZERO_ID = `0x${"0".repeat(64)}`;
+const ZERO_ADDRESS = `0x${"0".repeat(40)}`;
 
-export function parseOfferingsFromEnv(): readonly UShareOffering[] {
-  const raw = (process.env.USHARE_OFFERINGS_JSON ?? "").trim();
-  if (!raw) return [];
+const uShareCreatedEvent = parseAbiItem(
+  "event uShareCreated(address indexed uShareToken, bytes32 indexed uShareId)"
+);
 
-  let json: unknown;
-  try {
-    json = JSON.parse(raw);
-  } catch {
-    return [];
-  }
-
-  if (!Array.isArray(json)) return [];
-
-  const offerings: UShareOffering[] = [];
-  for (const item of json) {
-    const parsed = UShareOfferingInputSchema.safeParse(item);
-    if (!parsed.success) continue;
-
-    const uShareId =
-      typeof parsed.data.uShareId === "string" && parsed.data.uShareId.startsWith("0x")
-        ? (parsed.data.uShareId as `0x${string}`)
-        : decimalToBytes32Hex(parsed.data.uShareId as string);
-
-    // exactOptionalPropertyTypes-safe: omit optional keys if not present
-    const out: {
-      name: string;
-      symbol?: string;
-      uShareId: `0x${string}`;
-      uShareToken?: Address;
-    } = {
-      name: parsed.data.name,
-      uShareId,
-    };
+type Discovered = Readonly<{ uShareId: `0x${string}`; uShareToken: Address }>;
 
-    if (parsed.data.symbol && parsed.data.symbol.trim() !== "") {
-      out.symbol = parsed.data.symbol.trim();
-    }
-    if (parsed.data.uShareToken) {
-      out.uShareToken = parsed.data.uShareToken;
-    }
+// Factory tokens seen so far -> uShareId (null until the factory assigns one)
+let _discovery: { factory: string; nextBlock: bigint; tokens: Map<Address, `0x${string}` | null> } | null = null;
 
-    offerings.push(out);
-  }
+let _cache: { at: number; degraded: boolean; offerings: readonly UShareOffering[] } | null = null;
+let _inflight: Promise<readonly UShareOffering[]> | null = null;
+let _scan: Promise<void> | null = null;
+let _scanFailed = false;
 
-  return offerings;
+async function multicall(calls: readonly ContractFunctionParameters[]): Promise<unknown[]> {
+  if (calls.length === 0) return [];
+  const results = await publicClient.multicall({ contracts: calls, allowFailure: true });
+  return results.map((r) => (r.status === "success" ? r.result : null));
 }
 
-export function makeRegistryFromOfferings(offerings: readonly UShareOffering[]): UShareRegistry {
-  return { offerings };
+function knownDiscovered(): Discovered[] {
+  if (!_discovery) return [];
+  return [..._discovery.tokens].flatMap(([uShareToken, uShareId]) => (uShareId ? [{ uShareId, uShareToken }] : []));
 }
 
-const Bytes32InText = /0x[a-fA-F0-9]{64}/g;
-const AddressInText = /0x[a-fA-F0-9]{40}/g;
-// Large decimals only (avoid matching "100")
-const DecimalInText = /\b\d{10,}\b/g;
-
-export type ResolveResult = Readonly<{
-  uShareId: `0x${string}` | null;
-  offering?: UShareOffering;
-  reason:
-    | "FOUND_BYTES32_IN_TEXT"
-    | "FOUND_DECIMAL_IN_TEXT"
-    | "MATCHED_BY_SYMBOL"
-    | "MATCHED_BY_NAME"
-    | "MATCHED_BY_TOKEN_ADDRESS"
-    | "NOT_FOUND";
-}>;
-
-/**
- * Resolve uShareId from free text.
- * Priority:
- *  1) bytes32 in message
- *  2) large decimal in message (converted to bytes32)
- *  3) token address in message (match registry)
- *  4) symbol match
- *  5) name substring match
- */
-export function resolveUShareIdFromText(text: string, registry: UShareRegistry): ResolveResult {
-  const t = text ?? "";
-
-  // 1) bytes32 direct
-  const b32 = t.match(Bytes32InText)?.[0];
-  if (b32 && /^0x[a-fA-F0-9]{64}$/.test(b32)) {
-    return { uShareId: b32 as `0x${string}`, reason: "FOUND_BYTES32_IN_TEXT" };
-  }
-
-  // 2) large decimal id
-  const dec = t.match(DecimalInText)?.[0];
-  if (dec && /^\d+$/.test(dec)) {
-    return { uShareId: decimalToBytes32Hex(dec), reason: "FOUND_DECIMAL_IN_TEXT" };
+async function scanFactory(factory: Address): Promise<void> {
+  const key = factory.toLowerCase();
+  if (!_discovery || _discovery.factory !== key) {
+    _discovery = { factory: key, nextBlock: env.USHARE_FACTORY_FROM_BLOCK ?? 0n, tokens: new Map() };
   }
+  const d = _discovery;
+
+  const before = knownDiscovered().length;
+  const latest = await publicClient.getBlockNumber();
+  // Progress is kept per chunk, so a failing range is retried from where it stopped
+  while (latest >= d.nextBlock) {
+    const toBlock = d.nextBlock + LOG_CHUNK_BLOCKS - 1n < latest ? d.nextBlock + LOG_CHUNK_BLOCKS - 1n : latest;
+    const logs = await publicClient.getLogs({
+      address: factory,
+      event: uShareCreatedEvent,
+      fromBlock: d.nextBlock,
+      toBlock,
+    });
 
-  const offerings = registry.offerings ?? [];
-
-  // 3) token address match
-  const addr = t.match(AddressInText)?.[0];
-  if (addr && /^0x[a-fA-F0-9]{40}$/.test(addr)) {
-    const addrLc = addr.toLowerCase();
-    const found = offerings.find((o) => (o.uShareToken ?? "").toLowerCase() === addrLc);
-    if (found) {
-      return { uShareId: found.uShareId, offering: found, reason: "MATCHED_BY_TOKEN_ADDRESS" };
+    for (const log of logs) {
+      if (!log.args.uShareToken) continue;
+      const id = log.args.uShareId;
+      d.tokens.set(getAddress(log.args.uShareToken), id && id !== ZERO_ID ? id : null);
     }
+    d.nextBlock = toBlock + 1n;
   }
 
-  const norm = normalizeText(t);
+  // The id can be assigned after creation (setuShareId, once), so read the ones still missing
+  const pending = [...d.tokens].filter(([, id]) => id === null).map(([token]) => token);
+  const ids = await multicall(
+    pending.map((token) => ({ address: factory, abi: uShareFactoryAbi, functionName: "s_uShareId", args: [token] }))
+  );
+  pending.forEach((token, i) => {
+    const id = ids[i];
+    if (typeof id === "string" && id !== ZERO_ID) d.tokens.set(token, id as `0x${string}`);
+  });
+
+  // New offerings show up on the next request instead of after the TTL
+  if (knownDiscovered().length > before) _cache = null;
+}
 
-  // 4) symbol match
-  {
-    const found = offerings.find((o) => {
-      const sym = o.symbol ? normalizeText(o.symbol) : "";
-      return Boolean(sym) && (norm === sym || norm.includes(sym));
+/** Factory offerings found so far; starts a background scan for newer ones. */
+function discoverFromFactory(): Readonly<{ discovered: readonly Discovered[]; scanning: boolean }> {
+  const factory = optionalAddress(env.USHARE_FACTORY);
+  if (!factory) return { discovered: [], scanning: false };
+
+  _scan ??= scanFactory(factory)
+    .then(
+      () => {
+        _scanFailed = false;
+      },
+      () => {
+        _scanFailed = true; // logs unavailable (RPC down, range rejected): retried on a later refresh
+      }
+    )
+    .finally(() => {
+      _scan = null;
     });
-    if (found) return { uShareId: found.uShareId, offering: found, reason: "MATCHED_BY_SYMBOL" };
-  }
 
-  // 5) name best-effort match
-  {
-    let best: UShareOffering | null = null;
-    let bestScore = 0;
+  return { discovered: knownDiscovered(), scanning: _scan !== null };
+}
 
-    const msgTokens = new Set(norm.split(" ").filter(Boolean));
+type Candidate = {
+  uShareId: `0x${string}`;
+  config?: UShareOfferingConfig;
+  discoveredToken?: Address;
+};
 
-    for (const o of offerings) {
-      const name = normalizeText(o.name);
-      if (!name) continue;
+function mergeCandidates(
+  configured: readonly UShareOfferingConfig[],
+  discovered: readonly Discovered[]
+): Candidate[] {
+  const byId = new Map<string, Candidate>();
 
-      const nameTokens = new Set(name.split(" ").filter(Boolean));
-      let score = 0;
+  for (const config of configured) {
+    byId.set(config.uShareId.toLowerCase(), { uShareId: config.uShareId, config });
+  }
+  for (const d of discovered) {
+    const existing = byId.get(d.uShareId.toLowerCase());
+    if (existing) existing.discoveredToken = d.uShareToken;
+    else byId.set(d.uShareId.toLowerCase(), { uShareId: d.uShareId, discoveredToken: d.uShareToken });
+  }
 
-      for (const tok of nameTokens) {
-        if (tok.length < 3) continue;
-        if (msgTokens.has(tok)) score += 1;
-      }
+  return [...byId.values()];
+}
 
-      if (norm.includes(name)) score += 3;
+async function enrich(candidates: readonly Candidate[]): Promise<UShareOffering[]> {
+  const market = optionalAddress(env.USHARE_MARKET);
+
+  const infos = market
+    ? await multicall(
+        candidates.map((c) => ({
+          address: market,
+          abi: uShareMarketAbi,
+          functionName: "getuShareInfo",
+          args: [c.uShareId],
+        }))
+      )
+    : candidates.map(() => null);
+
+  const tokens = candidates.map((c, i) => {
+    const info = infos[i] as UShareInfo | null;
+    const onMarket = info && info.uShareToken !== ZERO_ADDRESS ? info.uShareToken : undefined;
+    return onMarket ?? c.discoveredToken ?? c.config?.uShareToken;
+  });
+
+  const erc20 = erc20Abi as unknown as Abi;
+  const meta = await multicall(
+    tokens.flatMap((token) =>
+      token
+        ? (["name", "symbol", "decimals"] as const).map((functionName) => ({ address: token, abi: erc20, functionName }))
+        : []
+    )
+  );
+
+  const out: UShareOffering[] = [];
+  let m = 0;
+
+  candidates.forEach((c, i) => {
+    const token = tokens[i];
+    if (!token) return;
+
+    const [name, symbol, decimals] = [meta[m], meta[m + 1], meta[m + 2]];
+    m += 3;
+
+    const info = infos[i] as UShareInfo | null;
+    // Created by the factory but never put on sale: nothing to buy or claim yet
+    if (!c.config && market && (!info || info.uShareToken === ZERO_ADDRESS)) return;
+
+    const label = {
+      name: c.config?.name ?? (typeof name === "string" && name ? name : undefined),
+      symbol: c.config?.symbol ?? (typeof symbol === "string" && symbol ? symbol : undefined),
+    };
+    if (!label.symbol) return;
+
+    const dec = typeof decimals === "number" ? decimals : c.config?.decimals;
+
+    out.push({
+      name: label.name ?? label.symbol,
+      symbol: label.symbol,
+      uShareId: c.uShareId,
+      uShareToken: token,
+      source: c.config ? "env" : "factory",
+      ...(typeof dec === "number" ? { decimals: dec } : {}),
+      ...(info && info.uShareToken !== ZERO_ADDRESS ? { info } : {}),
+    });
+  });
 
-      if (score > bestScore) {
-        bestScore = score;
-        best = o;
-      }
-    }
+  return out;
+}
 
-    if (best && bestScore > 0) {
-      return { uShareId: best.uShareId, offering: best, reason: "MATCHED_BY_NAME" };
-    }
+/** Env entries usable without any chain data (name, symbol and token all configured). */
+function offeringsFromConfigOnly(configured: readonly UShareOfferingConfig[]): UShareOffering[] {
+  return configured.flatMap((c) =>
+    c.name && c.symbol && c.uShareToken
+      ? [
+          {
+            name: c.name,
+            symbol: c.symbol,
+            uShareId: c.uShareId,
+            uShareToken: c.uShareToken,
+            source: "env" as const,
+            ...(typeof c.decimals === "number" ? { decimals: c.decimals } : {}),
+          },
+        ]
+      : []
+  );
+}
+
+async function refresh(configured: readonly UShareOfferingConfig[]): Promise<readonly UShareOffering[]> {
+  // Still scanning, or the last scan failed: come back sooner
+  const { discovered, scanning } = discoverFromFactory();
+  let degraded = scanning || _scanFailed;
+
+  let offerings: readonly UShareOffering[];
+  try {
+    offerings = await enrich(mergeCandidates(configured, discovered));
+  } catch {
+    degraded = true;
+    offerings = _cache?.offerings ?? offeringsFromConfigOnly(configured);
   }
 
-  return { uShareId: null, reason: "NOT_FOUND" };
+  _cache = { at: Date.now(), degraded, offerings };
+  return offerings;
+}
+
+/** getUShareOfferings for routes: a bad USHARE_OFFERINGS_JSON comes back as a message. */
+export async function loadUShareOfferings(): Promise<
+  { ok: true; offerings: readonly UShareOffering[] } | { ok: false; message: string }
+> {
+  try {
+    return { ok: true, offerings: await getUShareOfferings() };
+  } catch (e) {
+    return { ok: false, message: e instanceof Error ? e.message : "Invalid USHARE_OFFERINGS_JSON" };
+  }
 }
 
-/** Singleton registry (env-based). */
-let _registry: UShareRegistry | null = null;
+/**
+ * Current offerings (cached). Throws only on invalid USHARE_OFFERINGS_JSON; chain
+ * problems degrade to the last good list.
+ */
+export async function getUShareOfferings(): Promise<readonly UShareOffering[]> {
+  const configured = parseOfferingsEnv();
+
+  if (_cache) {
+    const ttlMs = _cache.degraded ? DEGRADED_TTL_MS : (env.USHARE_REGISTRY_TTL_SEC ?? DEFAULT_TTL_SEC) * 1000;
+    if (Date.now() - _cache.at < ttlMs) return _cache.offerings;
+  }
 
-export function getUShareRegistry(): UShareRegistry {
-  if (_registry) return _registry;
-  const offerings = parseOfferingsFromEnv();
-  _registry = makeRegistryFromOfferings(offerings);
-  return _registry;
+  _inflight ??= refresh(configured).finally(() => {
+    _inflight = null;
+  });
+  return _inflight;
 }
@@ -0,0 +1,125 @@
+// src/lib/uShareSale.ts
+import type { UShareInfo } from "./chainReads";
+
+/**
+ * Mirrors the uShareMarket status enum (uint8 in getuShareInfo).
+ */
+export const USHARE_STATUS_NAMES = ["INACTIVE", "ACTIVE", "COMPLETED", "CLOSED"] as const;
+
+export type UShareStatusName = (typeof USHARE_STATUS_NAMES)[number] | "UNKNOWN";
+
+export function uShareStatusName(status: number): UShareStatusName {
+  return USHARE_STATUS_NAMES[status] ?? "UNKNOWN";
+}
+
+export type UShareSalePhase =
+  | "NOT_ACTIVE"
+  | "NOT_STARTED"
+  | "PRE_SALE"
+  | "PUBLIC_SALE"
+  | "SOLD_OUT"
+  | "ENDED";
+
+const SALE_PHASE_LABELS: Readonly<Record<UShareSalePhase, string>> = {
+  NOT_ACTIVE: "not on sale",
+  NOT_STARTED: "sale not started",
+  PRE_SALE: "pre-sale (stakers only)",
+  PUBLIC_SALE: "public sale",
+  SOLD_OUT: "sold out",
+  ENDED: "sale ended",
+};
+
+export function salePhaseLabel(phase: UShareSalePhase): string {
+  return SALE_PHASE_LABELS[phase];
+}
+
+export type UShareSaleWindow = Readonly<{
+  phase: UShareSalePhase;
+  preSaleEndsAt: bigint; // unix seconds
+  saleEndsAt: bigint; // unix seconds
+  remaining: bigint; // uShare base units
+}>;
+
+/**
+ * Sale timeline as enforced by the market:
+ *   [startTime, startTime + PRE_SALE_DURATION)  -> pre-sale (stakers only)
+ *   [preSaleEnd, startTime + saleDuration)      -> public sale
+ */
+export function getUShareSaleWindow(
+  info: UShareInfo,
+  preSaleDuration: bigint,
+  nowSec: bigint
+): UShareSaleWindow {
+  const preSaleEndsAt = info.startTime + preSaleDuration;
+  const saleEndsAt = info.startTime + info.saleDuration;
+  const remaining = info.uShareAmount > info.uShareSold ? info.uShareAmount - info.uShareSold : 0n;
+
+  const base = { preSaleEndsAt, saleEndsAt, remaining };
+
+  if (uShareStatusName(info.status) !== "ACTIVE") {
+    return { ...base, phase: remaining === 0n && info.uShareAmount > 0n ? "SOLD_OUT" : "NOT_ACTIVE" };
+  }
+  if (remaining === 0n) return { ...base, phase: "SOLD_OUT" };
+  if (nowSec < info.startTime) return { ...base, phase: "NOT_STARTED" };
+  if (nowSec < preSaleEndsAt) return { ...base, phase: "PRE_SALE" };
+  if (info.saleDuration > 0n && nowSec >= saleEndsAt) return { ...base, phase: "ENDED" };
+  return { ...base, phase: "PUBLIC_SALE" };
+}
+
+/**
+ * USDC owed for `amount` uShare base units, rounded up so an exact approval
+ * never falls one unit short of what the market pulls.
+ */
+export function uShareCostInUsdc(amount: bigint, uSharePrice: bigint, precision: bigint): bigint {
+  const num = amount * uSharePrice;
+  return (num + precision - 1n) / precision;
+}
+
+/** USDC for one whole uShare (10^decimals base units), rounded up like any purchase. */
+export function uShareUnitPriceInUsdc(uShareDecimals: number, uSharePrice: bigint, precision: bigint): bigint {
+  return uShareCostInUsdc(10n ** BigInt(uShareDecimals), uSharePrice, precision);
+}
+
+/**
+ * uShare base units a USDC budget buys, rounded down so the (rounded-up) cost
+ * never exceeds the budget.
+ */
+export function uSharesForUsdc(usdc: bigint, uSharePrice: bigint, precision: bigint): bigint {
+  return uSharePrice > 0n ? (usdc * precision) / uSharePrice : 0n;
+}
+
+export type UShareAmountUnit = "USHARE" | "USDC";
+
+export type UShareBuyQuote = Readonly<{
+  requested: bigint; // uShare base units asked for (converted from USDC when needed)
+  uShares: bigint; // capped to the remaining supply
+  usdcCost: bigint; // exact USDC the market pulls for `uShares`
+  cappedBySupply: boolean;
+  belowMinimum: boolean; // under i_minuShareAmountForOneUSDC: the market reverts
+}>;
+
+/**
+ * Convert a buy request in either unit into uShares + exact USDC cost.
+ * Rounding: USDC -> uShares rounds down, uShares -> USDC rounds up.
+ */
+export function quoteUShareBuy(args: {
+  amount: bigint; // base units of `unit`
+  unit: UShareAmountUnit;
+  uSharePrice: bigint;
+  precision: bigint;
+  remaining: bigint;
+  minAmount: bigint;
+}): UShareBuyQuote {
+  const { amount, unit, uSharePrice, precision, remaining, minAmount } = args;
+
+  const requested = unit === "USDC" ? uSharesForUsdc(amount, uSharePrice, precision) : amount;
+  const uShares = requested > remaining ? remaining : requested;
+
+  return {
+    requested,
+    uShares,
+    usdcCost: uShareCostInUsdc(uShares, uSharePrice, precision),
+    cappedBySupply: requested > remaining,
+    belowMinimum: uShares < minAmount,
+  };
+}
@@ -0,0 +1,200 @@
+// src/lib/vestingAllocations.ts
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { concat, encodeAbiParameters, keccak256, type Address } from "viem";
+
+import { env } from "./env";
+import { readVestingMerkleRoot } from "./chainReads";
+
+/**
+ * Server-side vesting allocations + Merkle proofs.
+ *
+ * The allocation file is a JSON array of VestingData records:
+ *   [{"beneficiary":"0x...","totalAmount":"1000000000000000000000","cliffInSeconds":"0",
+ *     "vestingInSeconds":"31536000","tgePercentage":"10"}]
+ *
+ * Leaves and tree layout follow OpenZeppelin's StandardMerkleTree
+ * (double-hashed abi.encode leaves, sorted pairs), which is what the
+ * Vesting contract verifies against with MerkleProof.verify.
+ */
+
+const AddressSchema = z
+  .string()
+  .regex(/^0x[a-fA-F0-9]{40}$/, "Invalid EVM address")
+  .transform((s) => s as Address);
+
+const UintSchema = z
+  .union([z.string().regex(/^\d+$/, "Expected an integer string"), z.number().int().nonnegative()])
+  .transform((v) => String(v));
+
+const VestingRecordSchema = z.object({
+  beneficiary: AddressSchema,
+  totalAmount: UintSchema,
+  cliffInSeconds: UintSchema,
+  vestingInSeconds: UintSchema,
+  tgePercentage: UintSchema,
+});
+
+const VestingFileSchema = z.array(VestingRecordSchema).max(100_000);
+
+export type VestingRecord = z.infer<typeof VestingRecordSchema>;
+
+export type VestingAllocation = Readonly<{
+  data: VestingRecord;
+  merkleProof: `0x${string}`[];
+}>;
+
+type VestingStore = Readonly<{
+  root: `0x${string}`;
+  tree: readonly `0x${string}`[];
+  // lowercased beneficiary -> tree index of its leaf
+  indexByBeneficiary: ReadonlyMap<string, { record: VestingRecord; treeIndex: number }>;
+}>;
+
+type Logger = Readonly<{
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+}>;
+
+const DEFAULT_REL_PATH = path.join("src", "vesting_allocations.json");
+
+let _store: VestingStore | null = null;
+
+export function vestingLeaf(r: VestingRecord): `0x${string}` {
+  const encoded = encodeAbiParameters(
+    [
+      { type: "address" },
+      { type: "uint256" },
+      { type: "uint256" },
+      { type: "uint256" },
+      { type: "uint256" },
+    ],
+    [
+      r.beneficiary,
+      BigInt(r.totalAmount),
+      BigInt(r.cliffInSeconds),
+      BigInt(r.vestingInSeconds),
+      BigInt(r.tgePercentage),
+    ]
+  );
+  return keccak256(keccak256(encoded));
+}
+
+function compareHex(a: `0x${string}`, b: `0x${string}`): number {
+  const x = BigInt(a);
+  const y = BigInt(b);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function hashPair(a: `0x${string}`, b: `0x${string}`): `0x${string}` {
+  return compareHex(a, b) <= 0 ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+function buildStore(records: readonly VestingRecord[]): VestingStore {
+  if (records.length === 0) throw new Error("Vesting allocation file is empty");
+
+  const leaves = records
+    .map((record) => ({ record, leaf: vestingLeaf(record) }))
+    .sort((a, b) => compareHex(a.leaf, b.leaf));
+
+  // Complete binary tree in array form; leaves fill the tail in reverse order.
+  const tree: `0x${string}`[] = new Array(2 * leaves.length - 1);
+  const indexByBeneficiary = new Map<string, { record: VestingRecord; treeIndex: number }>();
+
+  leaves.forEach(({ record, leaf }, i) => {
+    const treeIndex = tree.length - 1 - i;
+    tree[treeIndex] = leaf;
+
+    const key = record.beneficiary.toLowerCase();
+    if (indexByBeneficiary.has(key)) {
+      throw new Error(`Duplicate vesting beneficiary in allocation file: ${record.beneficiary}`);
+    }
+    indexByBeneficiary.set(key, { record, treeIndex });
+  });
+
+  for (let i = tree.length - 1 - leaves.length; i >= 0; i -= 1) {
+    tree[i] = hashPair(tree[2 * i + 1]!, tree[2 * i + 2]!);
+  }
+
+  return { root: tree[0]!, tree, indexByBeneficiary };
+}
+
+function proofFor(tree: readonly `0x${string}`[], treeIndex: number): `0x${string}`[] {
+  const proof: `0x${string}`[] = [];
+  let i = treeIndex;
+  while (i > 0) {
+    const sibling = i % 2 === 1 ? i + 1 : i - 1;
+    proof.push(tree[sibling]!);
+    i = Math.floor((i - 1) / 2);
+  }
+  return proof;
+}
+
+function loadRecords(): VestingRecord[] | null {
+  const rel = (env.VESTING_ALLOCATIONS_PATH ?? "").trim() || DEFAULT_REL_PATH;
+  const abs = path.resolve(process.cwd(), rel);
+  if (!fs.existsSync(abs)) return null;
+
+  const raw = JSON.parse(fs.readFileSync(abs, "utf8")) as unknown;
+  const parsed = VestingFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new Error(`Invalid vesting allocation file (${rel}): ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Load the allocation file and build the tree once at startup.
+ * The lookup is only enabled when the computed root matches MERKLE_ROOT (env)
+ * and the Vesting contract's merkleRoot; otherwise proofs would revert on-chain.
+ */
+export async function initVestingAllocations(log: Logger): Promise<void> {
+  _store = null;
+
+  const records = loadRecords();
+  if (!records) {
+    log.info("Vesting allocation file not found; server-side vesting lookup disabled.");
+    return;
+  }
+
+  const store = buildStore(records);
+
+  if (env.MERKLE_ROOT && env.MERKLE_ROOT.toLowerCase() !== store.root.toLowerCase()) {
+    log.error(
+      `Vesting Merkle root mismatch: computed ${store.root}, MERKLE_ROOT is ${env.MERKLE_ROOT}. Server-side vesting lookup disabled.`
+    );
+    return;
+  }
+
+  if (env.VESTING_ADDRESS) {
+    try {
+      const onChain = await readVestingMerkleRoot(env.VESTING_ADDRESS as Address);
+      if (onChain.toLowerCase() !== store.root.toLowerCase()) {
+        log.error(
+          `Vesting Merkle root mismatch: computed ${store.root}, contract merkleRoot is ${onChain}. Server-side vesting lookup disabled.`
+        );
+        return;
+      }
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      log.warn(`Could not read Vesting.merkleRoot (${msg}); relying on MERKLE_ROOT only.`);
+    }
+  }
+
+  _store = store;
+  log.info(`Vesting allocations loaded: ${records.length} beneficiaries, root ${store.root}.`);
+}
+
+export function isVestingLookupEnabled(): boolean {
+  return _store !== null;
+}
+
+export function findVestingAllocation(account: Address): VestingAllocation | null {
+  if (!_store) return null;
+  const hit = _store.indexByBeneficiary.get(account.toLowerCase());
+  if (!hit) return null;
+  return { data: hit.record, merkleProof: proofFor(_store.tree, hit.treeIndex) };
+}
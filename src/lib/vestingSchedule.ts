@@ -0,0 +1,76 @@
+// src/lib/vestingSchedule.ts
+import { formatUnits } from "viem";
+
+import { formatUnixTime } from "./time";
+
+/**
+ * Unlock timeline for one VestingData record:
+ *  - TGE:      tgePercentage % of totalAmount unlocks at the TGE timestamp
+ *  - cliff:    nothing more unlocks until tge + cliffInSeconds
+ *  - linear:   the rest unlocks linearly over vestingInSeconds after the cliff
+ */
+
+export type VestingTerms = Readonly<{
+  totalAmount: bigint;
+  cliffInSeconds: bigint;
+  vestingInSeconds: bigint;
+  tgePercentage: bigint;
+}>;
+
+export type VestingSchedule = Readonly<{
+  tgeTimestamp: bigint;
+  tgeAmount: bigint;
+  cliffEnd: bigint;
+  vestingEnd: bigint;
+  linearAmount: bigint;
+  vestedNow: bigint;
+  nextUnlock: Readonly<{ at: bigint; label: string }> | null;
+}>;
+
+export function computeVestingSchedule(terms: VestingTerms, tgeTimestamp: bigint, nowSec: bigint): VestingSchedule {
+  const tgeAmount = (terms.totalAmount * terms.tgePercentage) / 100n;
+  const linearAmount = terms.totalAmount - tgeAmount;
+  const cliffEnd = tgeTimestamp + terms.cliffInSeconds;
+  const vestingEnd = cliffEnd + terms.vestingInSeconds;
+
+  let vestedNow = 0n;
+  if (nowSec >= tgeTimestamp) vestedNow = tgeAmount;
+  if (nowSec >= vestingEnd) {
+    vestedNow = terms.totalAmount;
+  } else if (nowSec > cliffEnd && terms.vestingInSeconds > 0n) {
+    vestedNow += (linearAmount * (nowSec - cliffEnd)) / terms.vestingInSeconds;
+  }
+
+  let nextUnlock: VestingSchedule["nextUnlock"] = null;
+  if (nowSec < tgeTimestamp) {
+    nextUnlock = { at: tgeTimestamp, label: "TGE unlock" };
+  } else if (nowSec < cliffEnd) {
+    nextUnlock = { at: cliffEnd, label: "cliff ends, linear unlocking starts" };
+  } else if (nowSec < vestingEnd) {
+    nextUnlock = { at: vestingEnd, label: "fully vested (tokens unlock continuously until then)" };
+  }
+
+  return { tgeTimestamp, tgeAmount, cliffEnd, vestingEnd, linearAmount, vestedNow, nextUnlock };
+}
+
+export function formatVestingSchedule(
+  s: VestingSchedule,
+  totalAmount: bigint,
+  decimals: number,
+  symbol: string
+): string {
+  const fmt = (v: bigint): string => `${formatUnits(v, decimals)} ${symbol}`;
+
+  const lines = [
+    `Total allocation: ${fmt(totalAmount)}.`,
+    `TGE (${formatUnixTime(s.tgeTimestamp)}): ${fmt(s.tgeAmount)} unlocked.`,
+    s.cliffEnd > s.tgeTimestamp ? `Cliff until ${formatUnixTime(s.cliffEnd)}.` : "No cliff.",
+    `Then ${fmt(s.linearAmount)} unlocks linearly until ${formatUnixTime(s.vestingEnd)}.`,
+    `Vested so far: ${fmt(s.vestedNow)}.`,
+  ];
+
+  if (s.nextUnlock) lines.push(`Next: ${formatUnixTime(s.nextUnlock.at)} — ${s.nextUnlock.label}.`);
+  else lines.push("Everything is vested.");
+
+  return lines.join(" ");
+}
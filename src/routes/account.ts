@@ -0,0 +1,31 @@
+import type { FastifyPluginAsync } from "fastify";
+import { z } from "zod";
+import type { Address } from "viem";
+
+import { loadAccountPortfolio } from "../lib/portfolio";
+import { loadUShareOfferings } from "../lib/uShareRegistry";
+
+const ParamsSchema = z.object({
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid EVM address"),
+});
+
+export const accountRoutes: FastifyPluginAsync = async (app) => {
+  // Portfolio snapshot: URANO, staking, USDC, uShares and vesting in one multicall
+  app.get("/:address", async (req, reply) => {
+    const parsed = ParamsSchema.safeParse(req.params);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: "BAD_REQUEST", issues: parsed.error.issues });
+    }
+
+    const loaded = await loadUShareOfferings();
+    if (!loaded.ok) return reply.code(500).send({ error: "CONFIG_ERROR", message: loaded.message });
+
+    try {
+      const portfolio = await loadAccountPortfolio(parsed.data.address as Address, loaded.offerings);
+      return reply.send(portfolio);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "Chain read failed";
+      return reply.code(502).send({ error: "CHAIN_READ_FAILED", message: msg });
+    }
+  });
+};
@@ -0,0 +1,45 @@
+// src/routes/admin.ts
+import type { FastifyPluginAsync } from "fastify";
+
+import {
+  loadKnowledgePack,
+  parseKnowledgePack,
+  readKnowledgePackFile,
+  setKnowledgePack,
+  type KnowledgePack,
+} from "../lib/knowledgePack";
+import { getParseFailureStats } from "../lib/llm";
+
+/**
+ * Operator endpoints (gated by UASSISTANT_ADMIN_KEY in server.ts).
+ *
+ * - POST /knowledge-pack/reload: re-read src/project_kb.json (e.g. after `npm run kb:build`)
+ * - PUT  /knowledge-pack: swap in the pack sent as the request body (memory only)
+ * - GET  /llm/parse-failures: planner output failures per provider:model since start
+ */
+export const adminRoutes: FastifyPluginAsync = async (app) => {
+  const swap = (pack: KnowledgePack): Readonly<{ ok: true; version: string; previousVersion: string | null }> => {
+    const previous = loadKnowledgePack();
+    setKnowledgePack(pack);
+    app.log.info({ version: pack.version, previousVersion: previous?.version ?? null }, "knowledge pack swapped");
+    return { ok: true, version: pack.version, previousVersion: previous?.version ?? null };
+  };
+
+  app.post("/knowledge-pack/reload", async (_req, reply) => {
+    const res = readKnowledgePackFile();
+    if (!res.ok) {
+      return reply.code(422).send({ error: "INVALID_KNOWLEDGE_PACK", message: res.error, issues: res.issues ?? [] });
+    }
+    return reply.send(swap(res.pack));
+  });
+
+  app.put("/knowledge-pack", { bodyLimit: 5 * 1024 * 1024 }, async (req, reply) => {
+    const res = parseKnowledgePack(req.body);
+    if (!res.ok) {
+      return reply.code(400).send({ error: "BAD_REQUEST", issues: res.issues ?? [res.error] });
+    }
+    return reply.send(swap(res.pack));
+  });
+
+  app.get("/llm/parse-failures", async () => ({ ok: true, models: getParseFailureStats() }));
+};
@@ -1,107 +1,100 @@
 // src/routes/chat.ts
-import type { FastifyPluginAsync } from "fastify";
+import type { FastifyBaseLogger, FastifyPluginAsync } from "fastify";
 import { z } from "zod";
 import crypto from "node:crypto";
-import { encodeFunctionData, parseUnits, type Address, type Abi } from "viem";
-
-import { openai } from "../lib/openai";
-import { env } from "../lib/env";
-import type { ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import { encodeFunctionData, formatUnits, parseUnits, type Address } from "viem";
 
 import {
-  getUShareOfferings,
-  resolveUShareSelectionFromText,
-  type UShareOffering,
-} from "../config/uShareOfferings";
-
-// ABI JSONs (from explorer)
-import UranoTokenAbiJson from "../abi/UranoToken.json";
-import StakingAbiJson from "../abi/Staking.json";
-import UShareMarketAbiJson from "../abi/uShareMarket.json";
-import UShareFactoryAbiJson from "../abi/uShareFactory.json";
-import VestingAbiJson from "../abi/Vesting.json";
-import GovernanceAbiJson from "../abi/Governance.json";
-
-import fs from "node:fs";
-import path from "node:path";
-
-
-/* ----------------------------- Knowledge Pack (static JSON) ----------------------------- */
-
-type KnowledgePack = Readonly<{
-  source: string;
-  version: string;
-  generatedFrom?: string;
-  sections: ReadonlyArray<
-    Readonly<{
-      id: string;
-      title: string;
-      summary: string;
-      bullets: ReadonlyArray<string>;
-      body?: string;
-    }>
-  >;
-  glossary: ReadonlyArray<Readonly<{ term: string; definition: string }>>;
-  faq: ReadonlyArray<Readonly<{ q: string; a: string }>>;
-}>;
-
-const KB_REL_PATH = path.join("src", "project_kb.json");
-
-let KB_CACHE: KnowledgePack | null = null;
-
-function loadKnowledgePack(): KnowledgePack | null {
-  if (KB_CACHE) return KB_CACHE;
-
-  try {
-    const abs = path.resolve(process.cwd(), KB_REL_PATH);
-    const raw = fs.readFileSync(abs, "utf8");
-    const parsed = JSON.parse(raw) as KnowledgePack;
-
-    // Minimal shape validation (avoid runtime surprises)
-    if (!parsed || typeof parsed !== "object") return null;
-    if (!Array.isArray(parsed.sections) || !Array.isArray(parsed.glossary) || !Array.isArray(parsed.faq))
-      return null;
-
-    KB_CACHE = parsed;
-    return KB_CACHE;
-  } catch {
-    return null;
-  }
-}
-
-function formatKbForPrompt(kb: KnowledgePack): string {
-  // Keep it tight: short list of sections + glossary + FAQ.
-  const sections = kb.sections
-    .slice(0, 18)
-    .map((s) => {
-      const bullets = (s.bullets ?? []).slice(0, 6).map((b) => `- ${b}`).join("\n");
-      const body = s.body ? `\nKey details: ${s.body}` : "";
-      return `## ${s.title}\nSummary: ${s.summary}\n${bullets}${body}`;
-    })
-    .join("\n\n");
-
-  const glossary = kb.glossary
-    .slice(0, 30)
-    .map((g) => `- ${g.term}: ${g.definition}`)
-    .join("\n");
-
-  const faq = kb.faq
-    .slice(0, 20)
-    .map((f) => `Q: ${f.q}\nA: ${f.a}`)
-    .join("\n\n");
-
-  return `Knowledge Base (source: ${kb.source}, version: ${kb.version})
-
-SECTIONS:
-${sections}
+  getLlmProvider,
+  recordParseFailure,
+  recordParseRepair,
+  type LlmJsonOutput,
+  type LlmMessage,
+  type ParseFailureKind,
+} from "../lib/llm";
+import { dropNulls, jsonSchemaOf, structuredOutputFor } from "../lib/structuredOutput";
+import {
+  extractAmount,
+  extractUsdcAmounts,
+  extractPercentAmount,
+  normalizeHumanAmount,
+  parseIntent,
+  parseIntentSequence,
+  percentAmountBps,
+  type RuleStep,
+} from "../lib/intentParser";
+import {
+  erc20Abi,
+  governanceAbi,
+  MAX_UINT256,
+  stakingAbi,
+  uranoTokenAbi,
+  uShareMarketAbi,
+  vestingAbi,
+} from "../lib/abis";
+import { publicClient } from "../lib/chain";
+import {
+  readAmountStaked,
+  readErc20Allowance,
+  readErc20Balance,
+  readDelegate,
+  readMinUShareAmountForOneUsdc,
+  readNonce,
+  readPreSaleDuration,
+  readProposal,
+  readStakingUserInfo,
+  readUranoBalance,
+  readUsdcDecimals,
+  readUShareDecimalPrecision,
+  readUShareInfo,
+  readVestingClaimable,
+  readVestingTgeTimestamp,
+  readVestingTotalClaimed,
+  readVotes,
+  type GovernanceProposal,
+  type UShareInfo,
+} from "../lib/chainReads";
+import { friendlyRevertMessage, simulateTxs, type TxSimulation } from "../lib/simulation";
+import {
+  formatPortfolioForPrompt,
+  loadAccountPortfolio,
+  type AccountPortfolio,
+  type TokenAmount,
+} from "../lib/portfolio";
+import { getConversationStore, type Conversation } from "../lib/conversationStore";
+import { findVestingAllocation, isVestingLookupEnabled } from "../lib/vestingAllocations";
+import { computeVestingSchedule, formatVestingSchedule } from "../lib/vestingSchedule";
+import {
+  formatProposalsForPrompt,
+  isEmptyProposal,
+  loadRecentProposals,
+  openProposals,
+  proposalClosedReason,
+  resolveProposalIdFromText,
+} from "../lib/proposals";
+import {
+  getUShareSaleWindow,
+  quoteUShareBuy,
+  salePhaseLabel,
+  uShareUnitPriceInUsdc,
+  type UShareAmountUnit,
+  type UShareBuyQuote,
+  type UShareSaleWindow,
+} from "../lib/uShareSale";
+import { loadKnowledgePack } from "../lib/knowledgePack";
+import { formatPassagesForPrompt, retrievePassages } from "../lib/kbRetrieval";
+import { CITATION_INSTRUCTIONS, checkCitations, type KbSource } from "../lib/kbSources";
+import { formatUnixTime, nowInSeconds } from "../lib/time";
+import { env } from "../lib/env";
+import { asAddress } from "../lib/addresses";
+import { loadUShareOfferings } from "../lib/uShareRegistry";
+import { planWarning, plannerNote, splitWarnings, warningMessages, type PlanWarning } from "../lib/planWarnings";
+import { formatCatalogForPrompt, loadOfferingsCatalog, type OfferingsCatalog } from "../lib/offeringsCatalog";
 
-GLOSSARY:
-${glossary}
+import { resolveUShare, type UShareCandidate, type UShareOffering } from "../config/uShareOfferings";
 
-FAQ:
-${faq}
-`;
-}
+// Messages replayed from a session into the planner (mirrors the stateless `messages` cap)
+const MAX_SESSION_HISTORY = 50;
 
 function clampText(s: string, maxChars: number): string {
   const t = s.trim();
@@ -174,42 +167,6 @@ function toPositiveInt(v: unknown, fallback: number): number {
   return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
 }
 
-/* ----------------------------- ABI Loader ----------------------------- */
-
-function extractAbi(json: unknown): Abi {
-  const j = json as any;
-  return (j?.abi ?? j) as Abi;
-}
-
-const uranoTokenAbi = extractAbi(UranoTokenAbiJson);
-const stakingAbi = extractAbi(StakingAbiJson);
-const uShareMarketAbi = extractAbi(UShareMarketAbiJson);
-const uShareFactoryAbi = extractAbi(UShareFactoryAbiJson);
-const vestingAbi = extractAbi(VestingAbiJson);
-const governanceAbi = extractAbi(GovernanceAbiJson);
-
-// Keep these voids to avoid “declared but never used” when ABIs are imported for completeness.
-void uranoTokenAbi;
-void uShareFactoryAbi;
-
-/**
- * ERC20 approve fragment (used for USDC approvals).
- */
-const erc20ApproveAbi = [
-  {
-    type: "function",
-    name: "approve",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "spender", type: "address" },
-      { name: "amount", type: "uint256" },
-    ],
-    outputs: [{ name: "", type: "bool" }],
-  },
-] as const;
-
-const MAX_UINT256 = (1n << 256n) - 1n;
-
 /* ----------------------------- Schemas ----------------------------- */
 
 const AddressSchema = z
@@ -232,68 +189,232 @@ const VestingDataSchema = z.object({
   tgePercentage: UintStringSchema,
 });
 
-const ChatBodySchema = z.object({
-  messages: z
-    .array(
-      z.object({
-        role: z.enum(["user", "assistant"]),
-        content: z.string().min(1).max(8000),
-      })
-    )
-    .min(1)
-    .max(50),
-
-  context: z
+const ChatContextSchema = z.object({
+  account: AddressSchema.optional(),
+  // "exact" (default) approves only what the action spends; "unlimited" approves MAX_UINT256.
+  approvalMode: z.enum(["exact", "unlimited"]).optional(),
+  vesting: z
     .object({
-      account: AddressSchema.optional(),
-      vesting: z
-        .object({
-          data: VestingDataSchema,
-          merkleProof: z.array(Bytes32Schema).max(64),
-        })
-        .optional(),
+      data: VestingDataSchema,
+      merkleProof: z.array(Bytes32Schema).max(64),
     })
     .optional(),
 });
 
-type ChatBody = z.infer<typeof ChatBodySchema>;
+const ChatMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().min(1).max(8000),
+});
+
+const ChatBodySchema = z
+  .object({
+    // Session mode: only the new message; omit conversationId to start a conversation.
+    conversationId: z.string().uuid().optional(),
+    message: z.string().min(1).max(8000).optional(),
+
+    // Stateless mode: the full history on every turn.
+    messages: z.array(ChatMessageSchema).min(1).max(50).optional(),
+
+    context: ChatContextSchema.optional(),
+
+    // 1 (default): `warnings` are plain strings. 2: typed `blockers` + `warnings` (see lib/planWarnings).
+    responseVersion: z.union([z.literal(1), z.literal(2)]).optional(),
+  })
+  .refine((b) => Boolean(b.message) || (!b.conversationId && Boolean(b.messages)), {
+    message: "Send `message` (optionally with `conversationId`), or the full `messages` history.",
+  });
+
+type ChatRequest = z.infer<typeof ChatBodySchema>;
+
+/** What the planner works on: the resolved history (request or session) + context. */
+type ChatBody = Readonly<{
+  messages: ReadonlyArray<z.infer<typeof ChatMessageSchema>>;
+  context?: z.infer<typeof ChatContextSchema>;
+}>;
 
 const ActionTypeSchema = z.enum([
   "STAKE",
   "UNSTAKE",
   "STAKE_ALL",
   "UNSTAKE_ALL",
+  "CLAIM_STAKING_REWARDS",
   "BUY_USHARE",
+  "QUOTE",
   "SELL_USHARE",
+  "CLAIM_REDISTRIBUTION",
   "VOTE",
+  "DELEGATE",
   "CLAIM_VESTING",
+  "VESTING_STATUS",
   "QUESTION",
   "UNSUPPORTED",
+  "MULTI_STEP",
+]);
+
+// Actions that can appear as a step of a MULTI_STEP plan (each maps to one buildTxs case)
+const StepActionTypeSchema = ActionTypeSchema.extract([
+  "STAKE",
+  "UNSTAKE",
+  "STAKE_ALL",
+  "UNSTAKE_ALL",
+  "CLAIM_STAKING_REWARDS",
+  "BUY_USHARE",
+  "CLAIM_REDISTRIBUTION",
+  "VOTE",
+  "DELEGATE",
+  "CLAIM_VESTING",
 ]);
 
-const PlannedSchema = z.object({
-  actionType: ActionTypeSchema,
-  interpretation: z.string().min(1).max(300),
-  userMessage: z.string().min(1).max(1200),
+const MAX_PLAN_STEPS = 5;
 
-  amount: z.string().optional(),
-  uShareId: Bytes32Schema.optional(),
+const AmountUnitSchema = z
+  .enum(["USHARE", "USDC"])
+  .describe('Only for BUY_USHARE / QUOTE: "USDC" when the amount is a USDC budget ("$500 of X"), default "USHARE"');
 
+const PlanStepSchema = z.object({
+  actionType: StepActionTypeSchema,
+  interpretation: z.string().min(1).max(200).describe("Short description of this step"),
+  amount: z.string().optional().describe('Human amount like 100.5, or a share of the balance like "50%"'),
+  amountUnit: AmountUnitSchema.optional(),
+  amountFromStep: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PLAN_STEPS)
+    .optional()
+    .describe('Use the amount produced by this earlier step (1-based), e.g. "stake what I just claimed"'),
+  uShareId: Bytes32Schema.optional(),
   proposalId: z.number().int().nonnegative().optional(),
   vote: z.boolean().optional(),
-
+  delegatee: z.union([AddressSchema, z.literal("self")]).optional(),
+  gasless: z.boolean().optional(),
   warnings: z.array(z.string().min(1).max(300)).optional(),
-  docsUrl: z.string().url().optional(),
-  supportEmail: z.string().email().optional(),
 });
 
-type Planned = z.infer<typeof PlannedSchema>;
+// `issues`: typed warnings added server-side (the model's own `warnings` stay free text)
+type PlanStep = z.infer<typeof PlanStepSchema> & Readonly<{ issues?: PlanWarning[] }>;
+
+// Descriptions are part of the generated JSON Schema the planner model sees
+const PlannedSchema = z
+  .object({
+    actionType: ActionTypeSchema,
+    interpretation: z.string().min(1).max(300).describe("Short interpretation of the request"),
+    userMessage: z
+      .string()
+      .min(1)
+      .max(1200)
+      .describe("Short user-facing message (what will happen, or the answer)"),
+
+    amount: z
+      .string()
+      .optional()
+      .describe('Human amount like 100.5, or a share of the balance like "50%" (only when the action needs one)'),
+    amountUnit: AmountUnitSchema.optional(),
+    uShareId: Bytes32Schema.optional().describe(
+      "bytes32 uShare id, only for BUY_USHARE / QUOTE / CLAIM_REDISTRIBUTION when known"
+    ),
+
+    proposalId: z.number().int().nonnegative().optional().describe("Only for VOTE"),
+    vote: z.boolean().optional().describe("Only for VOTE: true = yes, false = no"),
+
+    // DELEGATE: target address, or "self" for the connected account
+    delegatee: z
+      .union([AddressSchema, z.literal("self")])
+      .optional()
+      .describe('Only for DELEGATE: address, or "self" for the connected account'),
+    gasless: z.boolean().optional().describe("Only for DELEGATE: true when the user wants to sign without paying gas"),
+
+    steps: z
+      .array(PlanStepSchema)
+      .min(2)
+      .max(MAX_PLAN_STEPS)
+      .optional()
+      .describe("Only for MULTI_STEP: the actions in execution order"),
+
+    warnings: z.array(z.string().min(1).max(300)).optional(),
+    docsUrl: z.string().url().optional(),
+    supportEmail: z.string().email().optional(),
+  })
+  .superRefine((plan, ctx) => {
+    if (plan.actionType === "MULTI_STEP" && !plan.steps) {
+      ctx.addIssue({ code: "custom", path: ["steps"], message: "MULTI_STEP requires steps" });
+    }
+  });
+
+const PLANNED_JSON_SCHEMA = jsonSchemaOf(PlannedSchema);
+const PLANNED_OUTPUT_SPEC = structuredOutputFor("assistant_plan", PlannedSchema);
+
+/**
+ * Which path produced a plan:
+ * - "rules": deterministic parser fast path (clear commands, no LLM call)
+ * - "llm": model output (post-processed by coercePlanFromUserText)
+ * - "fallback": rules parser after the LLM failed or returned an invalid plan
+ * - "confirmation": previous plan re-issued on "yes, do it"
+ * - "canned": greeting / help text
+ */
+type PlanPath = "rules" | "llm" | "fallback" | "confirmation" | "canned";
+
+/**
+ * Question back to the user when the request matches several uShares about equally.
+ * Each option's `reply` is a message the client can send as-is to pick it.
+ */
+type Clarification = Readonly<{
+  field: "uShareId";
+  question: string;
+  options: ReadonlyArray<
+    Readonly<{ label: string; uShareId: `0x${string}`; symbol: string; confidence: number; reply: string }>
+  >;
+}>;
+
+/**
+ * Adjusted plan offered when the requested one exceeds a balance ("stake all 800 URANO instead?").
+ * `reply` is a message the client can send as-is; in a session "yes" accepts it too.
+ */
+type BalanceOffer = Readonly<{ question: string; reply: string; plan: Planned }>;
+
+// Server-side fields; the model never emits them (and stored plans drop them on re-parse)
+type Planned = Omit<z.infer<typeof PlannedSchema>, "steps"> &
+  Readonly<{
+    steps?: PlanStep[] | undefined;
+    issues?: PlanWarning[]; // typed warnings from coercion, KB checks and the balance guard
+    sources?: KbSource[];
+    producedBy?: PlanPath;
+    clarification?: Clarification;
+    // Set by the balance guard: no txs are built
+    blocked?: Readonly<{ reason: string; offer?: BalanceOffer }>;
+  }>;
 
 type TxPreview = Readonly<{
   chainId: number;
   to: Address;
   data: `0x${string}`;
   value: string;
+  simulation?: TxSimulation;
+}>;
+
+/**
+ * Off-chain signature the wallet can produce without gas (EIP-712 typed data).
+ * bigint fields are stringified so the payload is JSON-safe.
+ */
+type SignatureRequest = Readonly<{
+  kind: "DELEGATE_BY_SIG";
+  primaryType: "Delegation";
+  domain: Readonly<{ name: string; version: string; chainId: number; verifyingContract: Address }>;
+  types: Readonly<{ Delegation: ReadonlyArray<Readonly<{ name: string; type: string }>> }>;
+  message: Readonly<{ delegatee: Address; nonce: string; expiry: string }>;
+}>;
+
+/**
+ * Per-step outcome of a MULTI_STEP plan. `txIndexes` point into the plan's merged `txs`.
+ */
+type PlanStepResult = Readonly<{
+  step: number;
+  actionType: PlanStep["actionType"];
+  interpretation: string;
+  userMessage: string;
+  warnings: PlanWarning[];
+  txIndexes: number[];
+  signatureRequest?: SignatureRequest;
 }>;
 
 type AssistantPlan = Readonly<{
@@ -301,13 +422,35 @@ type AssistantPlan = Readonly<{
   actionType: z.infer<typeof ActionTypeSchema>;
   interpretation: string;
   userMessage: string;
-  warnings: string[];
+  warnings: PlanWarning[];
   txs: TxPreview[];
   tx: TxPreview | null;
+  steps?: PlanStepResult[];
+  signatureRequest?: SignatureRequest;
+  clarification?: Clarification;
+  offer?: Readonly<{ question: string; reply: string }>;
+  conversationId?: string;
+  producedBy: PlanPath;
+  sources?: KbSource[];
   docsUrl?: string;
   supportEmail?: string;
 }>;
 
+type PlanResponseVersion = NonNullable<ChatRequest["responseVersion"]>;
+
+// Wire shapes of AssistantPlan. v1 keeps the plain-string warnings older clients read.
+type PlanResponseV1 = Omit<AssistantPlan, "warnings" | "steps"> & {
+  responseVersion: 1;
+  warnings: string[];
+  steps?: Array<Omit<PlanStepResult, "warnings"> & { warnings: string[] }>;
+};
+
+type PlanResponseV2 = Omit<AssistantPlan, "steps"> & {
+  responseVersion: 2;
+  blockers: PlanWarning[];
+  steps?: Array<PlanStepResult & { blockers: PlanWarning[] }>;
+};
+
 /* ----------------------------- Helpers ----------------------------- */
 
 function sseEvent(event: string, data: unknown): string {
@@ -318,14 +461,6 @@ function normalizeAmountString(input: string): string {
   return input.trim().replace(/,/g, "");
 }
 
-function asAddress(v: string | undefined, name: string): Address {
-  const s = (v ?? "").trim();
-  if (!/^0x[a-fA-F0-9]{40}$/.test(s)) {
-    throw new Error(`Missing/invalid ${name} address env var`);
-  }
-  return s as Address;
-}
-
 function lastUserMessage(body: ChatBody): string {
   for (let i = body.messages.length - 1; i >= 0; i -= 1) {
     const m = body.messages[i];
@@ -369,18 +504,32 @@ function isSmallTalkOrHelp(text: string): boolean {
 
 function helpMessage(): Planned {
   return {
+    producedBy: "canned",
     actionType: "QUESTION",
     interpretation: "Help / greeting",
     userMessage:
-      "Hi. I can help you stake/unstake (amount or all), buy uShare (mention symbol or paste uShareId), vote on proposals, or claim vesting tokens. What would you like to do?",
+      "Hi. I can help you stake/unstake (amount or all), claim staking rewards, buy uShare (by amount or USDC budget; mention symbol or paste uShareId), quote uShare prices, claim uShare payouts, vote on proposals, delegate your votes, or claim vesting tokens. What would you like to do?",
     warnings: [],
   };
 }
 
-function extractFirstNumber(text: string): string | null {
-  const m = text.match(/(\d+(?:[.,]\d+)?)/);
-  if (!m) return null;
-  return m[1]!.replace(",", ".");
+function isConfirmation(text: string): boolean {
+  const t = text.trim().toLowerCase().replace(/[.!]+$/, "");
+  return /^(yes|yep|yeah|y|ok|okay|sure|confirm|confirmed|do it|go ahead|go|proceed|let'?s do it)( please| do it| go ahead)?$/.test(t);
+}
+
+function isActionable(plan: Planned): boolean {
+  return plan.actionType !== "QUESTION" && plan.actionType !== "QUOTE" && plan.actionType !== "UNSUPPORTED";
+}
+
+/** Params-only view of a plan for prompts (no user-facing text). */
+function summarizePlanned(plan: Planned): Record<string, unknown> {
+  const { actionType, amount, amountUnit, uShareId, proposalId, vote, delegatee, gasless, steps } = plan;
+  return Object.fromEntries(
+    Object.entries({ actionType, amount, amountUnit, uShareId, proposalId, vote, delegatee, gasless, steps }).filter(
+      ([, v]) => v !== undefined
+    )
+  );
 }
 
 function formatOfferingsForPrompt(offerings: readonly UShareOffering[]): string {
@@ -390,22 +539,67 @@ function formatOfferingsForPrompt(offerings: readonly UShareOffering[]): string
 
 /**
  * Post-process the LLM plan so the UX is robust even if the model omits fields.
+ * `amountLinked`: the amount comes from an earlier MULTI_STEP step, so none is expected here.
  */
 function coercePlanFromUserText(
   plan: Planned,
   last: string,
-  offerings: readonly UShareOffering[]
+  ctx: PlannerContext,
+  amountLinked = false
 ): Planned {
+  const { offerings, proposals, previousPlan } = ctx;
+
+  if (plan.actionType === "MULTI_STEP") return coercePlanSteps(plan, ctx);
+
   let out = plan;
-  const w = [...(out.warnings ?? [])];
+  const w = [...(out.issues ?? [])];
+
+  // Follow-up on the same action ("make it 200 instead"): keep params the user didn't restate
+  if (previousPlan && previousPlan.actionType === out.actionType) {
+    out = {
+      ...out,
+      ...(!out.uShareId && previousPlan.uShareId ? { uShareId: previousPlan.uShareId } : {}),
+      ...(!out.amountUnit && previousPlan.amountUnit ? { amountUnit: previousPlan.amountUnit } : {}),
+      ...(typeof out.proposalId !== "number" && typeof previousPlan.proposalId === "number"
+        ? { proposalId: previousPlan.proposalId }
+        : {}),
+      ...(typeof out.vote !== "boolean" && typeof previousPlan.vote === "boolean" ? { vote: previousPlan.vote } : {}),
+      ...(!out.delegatee && previousPlan.delegatee ? { delegatee: previousPlan.delegatee } : {}),
+    };
+  }
 
   const needsAmount =
-    out.actionType === "BUY_USHARE" || out.actionType === "STAKE" || out.actionType === "UNSTAKE";
+    !amountLinked &&
+    (out.actionType === "BUY_USHARE" ||
+      out.actionType === "QUOTE" ||
+      out.actionType === "STAKE" ||
+      out.actionType === "UNSTAKE");
+
+  // "half my balance" / "25%": the balance guard turns the percentage into an amount
+  const percent = needsAmount ? extractPercentAmount(last) : null;
+  // Models sometimes drop the "%" ("25" for "25% of my stake"); only trust an explicit "25%" in the text
+  if (percent && out.amount && normalizeHumanAmount(out.amount) === percent.slice(0, -1)) {
+    const n = percent.slice(0, -1).replace(".", "\\.");
+    if (new RegExp(`\\b${n} ?(?:%|percent)`, "i").test(last)) out = { ...out, amount: percent };
+  }
 
   if (needsAmount && (!out.amount || out.amount.trim() === "")) {
-    const inferred = extractFirstNumber(last);
+    const inferred = percent ?? extractAmount(last);
     if (inferred) out = { ...out, amount: inferred };
-    else w.push("Missing amount. Example: 'buy 100 uShares' or 'stake 250'.");
+    else w.push(planWarning("MISSING_AMOUNT", "Missing amount. Example: 'buy 100 uShares' or 'stake 250'."));
+  }
+
+  // "$500 of X" / "500 USDC into X": a USDC budget even if the model left the unit out,
+  // but only when the amount itself is the dollar figure ("buy 10 X, I have $500" stays 10 uShares)
+  if ((out.actionType === "BUY_USHARE" || out.actionType === "QUOTE") && !out.amountUnit && out.amount) {
+    const amount = normalizeHumanAmount(out.amount);
+    if (amount && extractUsdcAmounts(last).includes(amount)) out = { ...out, amountUnit: "USDC" };
+  }
+
+  // Models sometimes echo shorthand ("1.5k") instead of a plain decimal
+  if (out.amount) {
+    const normalized = normalizeHumanAmount(out.amount);
+    if (normalized) out = { ...out, amount: normalized };
   }
 
   // SELL is not supported
@@ -415,88 +609,284 @@ function coercePlanFromUserText(
       actionType: "UNSUPPORTED",
       interpretation: "Sell uShare is not supported by this contract",
       userMessage:
-        "I can't do that yet. I can help you stake/unstake, buy uShare, vote, or claim vesting tokens.",
+        "I can't do that yet. I can help you stake/unstake, claim staking rewards, buy uShare, claim uShare payouts, vote, delegate votes, or claim vesting tokens.",
     };
   }
 
-  // BUY_USHARE requires uShareId; resolve from offerings when possible
-  if (out.actionType === "BUY_USHARE" && !out.uShareId) {
-    const sel = resolveUShareSelectionFromText(offerings, last);
+  // BUY_USHARE / QUOTE / CLAIM_REDISTRIBUTION require uShareId; resolve from offerings when possible
+  const needsUShare =
+    out.actionType === "BUY_USHARE" || out.actionType === "QUOTE" || out.actionType === "CLAIM_REDISTRIBUTION";
+  const resolved = needsUShare ? resolveUShare(offerings, last) : null;
+
+  // The model sees every uShareId in the catalog, so its pick doesn't settle a near-tie; a pasted id does
+  if (resolved?.ambiguous && out.uShareId && !last.toLowerCase().includes(out.uShareId.toLowerCase())) {
+    const { uShareId: _guess, ...rest } = out;
+    out = rest;
+  }
 
-    if (sel.id) {
-      out = { ...out, uShareId: sel.id };
+  if (resolved && !out.uShareId) {
+    if (resolved.selection.id) {
+      out = { ...out, uShareId: resolved.selection.id };
+    } else if (resolved.ambiguous) {
+      const clarification = uShareClarification(out, resolved.candidates);
+      out = { ...out, userMessage: clarification.question, clarification };
+      w.push(
+        planWarning("AMBIGUOUS_USHARE", clarification.question, {
+          candidates: clarification.options.map((o) => o.symbol).join(","),
+        })
+      );
     } else {
       const list = formatOfferingsForPrompt(offerings);
+      const verb = uShareVerb(out.actionType);
       out = {
         ...out,
         interpretation:
-          out.interpretation || "User wants to buy uShares but did not specify which uShareId",
+          out.interpretation || `User wants to ${verb} a uShare but did not specify which uShareId`,
         userMessage:
           offerings.length > 0
-            ? `Which uShare do you want to buy? Paste the uShareId (bytes32) or mention the symbol. Available: ${list}`
-            : "Please paste the uShareId (bytes32) of the uShare you want to buy (0x + 64 hex chars).",
+            ? `Which uShare do you want to ${verb}? Paste the uShareId (bytes32) or mention the symbol. Available: ${list}`
+            : `Please paste the uShareId (bytes32) of the uShare you want to ${verb} (0x + 64 hex chars).`,
       };
-      w.push("Missing uShareId (bytes32). Paste it like: 0x<64 hex chars>.");
+      w.push(planWarning("MISSING_USHARE_ID", "Missing uShareId (bytes32). Paste it like: 0x<64 hex chars>."));
+    }
+  }
+
+  // VOTE without a numeric id: resolve "the treasury proposal" / "the latest one" from open proposals
+  if (out.actionType === "VOTE" && typeof out.proposalId !== "number") {
+    const id = resolveProposalIdFromText(proposals, last);
+    if (id !== null) {
+      out = { ...out, proposalId: Number(id) };
+    } else {
+      w.push(
+        proposals.length > 0
+          ? planWarning("MISSING_PROPOSAL", `Which proposal? Open proposals: ${formatProposalsForPrompt(proposals)}`)
+          : planWarning("NO_OPEN_PROPOSALS", "There are no open governance proposals right now.")
+      );
+    }
+  }
+
+  // DELEGATE: take an address from the text, or "myself" -> self
+  if (out.actionType === "DELEGATE" && !out.delegatee) {
+    const addr = last.match(/0x[a-fA-F0-9]{40}/)?.[0];
+    if (addr) out = { ...out, delegatee: addr as Address };
+    else if (/\b(myself|me|self|my own)\b/i.test(last)) out = { ...out, delegatee: "self" };
+    else {
+      w.push(planWarning("MISSING_DELEGATEE", "Missing delegatee. Example: 'delegate my votes to myself' or 'delegate to 0x…'."));
     }
   }
 
-  if (w.length > 0) out = { ...out, warnings: w };
+  if (w.length > 0) out = { ...out, issues: w };
   return out;
 }
 
+function uShareVerb(actionType: Planned["actionType"]): string {
+  if (actionType === "BUY_USHARE") return "buy";
+  if (actionType === "QUOTE") return "get a quote for";
+  return "claim the payout for";
+}
+
+/** Message that re-runs the plan for one specific uShare (clarification option). */
+function clarificationReply(plan: Planned, symbol: string): string {
+  const amount = plan.amount ?? "";
+  const usdc = plan.amountUnit === "USDC";
+  const reply =
+    plan.actionType === "BUY_USHARE"
+      ? usdc
+        ? `put ${amount} usdc into ${symbol}`
+        : `buy ${amount} ${symbol}`
+      : plan.actionType === "QUOTE"
+        ? usdc
+          ? `how many ${symbol} for ${amount} usdc`
+          : `how much would ${amount} ${symbol} cost`
+        : `claim my ${symbol} payout`;
+  return reply.replace(/\s+/g, " ");
+}
+
+const MAX_CLARIFICATION_OPTIONS = 5;
+
+function uShareClarification(plan: Planned, candidates: readonly UShareCandidate[]): Clarification {
+  const options = candidates.slice(0, MAX_CLARIFICATION_OPTIONS).map(({ offering: o, confidence }) => ({
+    label: `${o.name} (${o.symbol})`,
+    uShareId: o.uShareId,
+    symbol: o.symbol,
+    confidence,
+    reply: clarificationReply(plan, o.symbol),
+  }));
+
+  const verb = uShareVerb(plan.actionType);
+  return {
+    field: "uShareId",
+    question: `Several uShares match. Which one do you want to ${verb}: ${options.map((o) => o.label).join(", ")}?`,
+    options,
+  };
+}
+
+/**
+ * Coerce each step on its own, using the step's interpretation as its text so
+ * amounts and uShare names don't leak between steps.
+ */
+function coercePlanSteps(plan: Planned, ctx: PlannerContext): Planned {
+  const stepCtx: PlannerContext = { ...ctx, previousPlan: null };
+
+  const steps = (plan.steps ?? []).map((step): PlanStep => {
+    const { amountFromStep, ...params } = step;
+    const linked = amountFromStep !== undefined;
+    const c = coercePlanFromUserText(
+      { ...params, userMessage: step.interpretation },
+      step.interpretation,
+      stepCtx,
+      linked
+    );
+
+    return {
+      actionType: step.actionType,
+      interpretation: step.interpretation,
+      ...(linked ? { amountFromStep } : c.amount ? { amount: c.amount } : {}),
+      ...(c.amountUnit ? { amountUnit: c.amountUnit } : {}),
+      ...(c.uShareId ? { uShareId: c.uShareId } : {}),
+      ...(typeof c.proposalId === "number" ? { proposalId: c.proposalId } : {}),
+      ...(typeof c.vote === "boolean" ? { vote: c.vote } : {}),
+      ...(c.delegatee ? { delegatee: c.delegatee } : {}),
+      ...(c.gasless ? { gasless: c.gasless } : {}),
+      ...(step.warnings ? { warnings: step.warnings } : {}),
+      // A step can't carry its own clarification; the AMBIGUOUS_USHARE issue carries the question
+      ...(c.issues && c.issues.length > 0 ? { issues: c.issues } : {}),
+    };
+  });
+
+  return { ...plan, steps };
+}
+
 /* ----------------------------- Planner (OpenAI -> JSON) ----------------------------- */
 
+/**
+ * Live data the planner sees alongside the conversation.
+ */
+type PlannerContext = Readonly<{
+  offerings: readonly UShareOffering[];
+  // Live sale status (same data as GET /offerings); null when the chain can't be read
+  catalog: OfferingsCatalog | null;
+  proposals: readonly GovernanceProposal[];
+  portfolio: AccountPortfolio | null;
+  // Last plan emitted in this conversation (session mode only)
+  previousPlan: Planned | null;
+}>;
+
+/**
+ * Optional progress callbacks used by /chat/stream. `signal` cancels upstream LLM calls.
+ */
+type PlanStage = "planning" | "answering" | "checking_balances" | "building_txs" | "simulating";
+
+type StreamHooks = Readonly<{
+  signal?: AbortSignal;
+  onStage?: (stage: PlanStage) => void;
+  onDelta?: (text: string) => void;
+}>;
+
 async function planFromMessages(
   body: ChatBody,
-  offerings: readonly UShareOffering[]
+  ctx: PlannerContext,
+  log: FastifyBaseLogger,
+  hooks: StreamHooks = {}
 ): Promise<Planned> {
+  const { offerings, catalog, proposals, portfolio, previousPlan } = ctx;
+
   const last = lastUserMessage(body);
+
+  // "yes, do it" right after an actionable plan: re-issue it without a model round-trip
+  if (previousPlan && isActionable(previousPlan) && isConfirmation(last)) {
+    return {
+      ...previousPlan,
+      producedBy: "confirmation",
+      interpretation: `Confirmed: ${previousPlan.interpretation}`,
+      warnings: [],
+    };
+  }
+
   if (isSmallTalkOrHelp(last)) return helpMessage();
 
+  // Clear commands ("stake 1.5k", "vote yes on 12") skip the model entirely
+  const ruled = parseIntent(last, offerings, "strict");
+  if (ruled) return { ...coercePlanFromUserText(ruled, last, ctx), producedBy: "rules" };
+
+  const sequence = parseIntentSequence(last, offerings);
+  if (sequence) return { ...coercePlanFromUserText(planFromRuleSteps(sequence), last, ctx), producedBy: "rules" };
+
   const extras = getEnvExtras();
 
-  const offeringsHint =
-    offerings.length > 0
-      ? `Known uShares (name/symbol/uShareId): ${formatOfferingsForPrompt(offerings)}`
+  const offeringsHint = catalog
+    ? `uShares with live sale status as of ${catalog.asOf} (name/symbol/uShareId: status): ${formatCatalogForPrompt(catalog)}`
+    : offerings.length > 0
+      ? `Known uShares (name/symbol/uShareId; live sale status unavailable): ${formatOfferingsForPrompt(offerings)}`
       : "No uShares are configured on backend.";
 
+  const proposalsHint = `Open governance proposals (id/description/end): ${formatProposalsForPrompt(proposals)}`;
+
+  const portfolioHint = portfolio ? formatPortfolioForPrompt(portfolio) : "No connected account.";
+
+  const previousPlanHint = previousPlan
+    ? `Previous plan in this conversation: ${JSON.stringify(summarizePlanned(previousPlan))}`
+    : "No previous plan in this conversation.";
+
   const baseSystemPrompt = `
 You are uAssistant for the Urano DApp.
 
 You MUST ONLY output JSON (no markdown, no prose outside JSON).
 
-Return JSON with this exact shape:
-{
-  "actionType": "STAKE|UNSTAKE|STAKE_ALL|UNSTAKE_ALL|BUY_USHARE|SELL_USHARE|VOTE|CLAIM_VESTING|QUESTION|UNSUPPORTED",
-  "interpretation": "short interpretation",
-  "userMessage": "short user-facing message (what will happen or the answer)",
-  "amount": "string like 100.5 (only when needed)",
-  "uShareId": "0x... (bytes32) only for BUY_USHARE when user provides it",
-  "proposalId": 123 (only for VOTE),
-  "vote": true/false (only for VOTE),
-  "warnings": ["..."] (optional),
-  "docsUrl": "https://..." (optional),
-  "supportEmail": "email@..." (optional)
-}
+Return one JSON object matching this JSON Schema (omit or null fields that don't apply):
+${JSON.stringify(PLANNED_JSON_SCHEMA)}
 
 Context:
 - ${offeringsHint}
+- ${proposalsHint}
+- ${portfolioHint}
+- ${previousPlanHint}
 
 Core rules:
 - Greetings / small talk MUST be actionType="QUESTION".
 - General informational questions MUST be actionType="QUESTION" with a helpful answer.
+- Questions about the user's own balances, stake or rewards: answer as QUESTION from the connected account data above.
+- Questions about what is for sale ("what can I buy right now?", prices, how many are left, payouts): answer as
+  QUESTION from the live uShare sale status above. Never quote prices or availability that are not listed there.
+- The cost of a specific amount ("how much would 100 MILANO cost?", "how many MILANO for $500?") MUST be
+  actionType="QUOTE" with "amount", "amountUnit" and "uShareId"; the backend computes the exact figure.
 - Use actionType="UNSUPPORTED" ONLY when the user requests an action outside the supported set.
   For UNSUPPORTED, userMessage must be:
-  "I can't do that yet. I can help you stake/unstake, buy uShare, vote, or claim vesting tokens."
+  "I can't do that yet. I can help you stake/unstake, claim staking rewards, buy uShare, claim uShare payouts, vote, delegate votes, or claim vesting tokens."
+
+Follow-ups:
+- If the user confirms ("yes", "do it", "go ahead"), return the previous plan's actionType and params again.
+- If the user changes one param ("make it 200 instead", "vote no instead"), return the previous actionType
+  with that param updated and all other params kept.
 
 Action extraction rules:
 - STAKE / UNSTAKE: extract human amount into "amount". If missing, keep actionType and add warning.
-- STAKE_ALL / UNSTAKE_ALL: no amount.
+- A share of a balance ("half my URANO", "25% of my stake", "10% of my USDC") is amount="50%" / "25%" / "10%";
+  the backend resolves it from live balances. For BUY_USHARE it is a share of the USDC balance (amountUnit="USDC").
+- STAKE_ALL / UNSTAKE_ALL: no amount (resolved from the user's live wallet balance / staked amount).
+- CLAIM_STAKING_REWARDS: claim accrued staking rewards. No params in JSON.
 - BUY_USHARE: requires "amount". If the user provides a bytes32 in the message, include it as "uShareId".
   If not provided, DO NOT invent it.
+  A dollar / USDC amount ("put $500 into MILANO") is a budget: set amountUnit="USDC" and amount="500".
+  The backend checks the live sale (pre-sale vs public sale, sold out, closed); do not guess sale status.
+- CLAIM_REDISTRIBUTION: claim a uShare's cashflow profits (rent payout, dividends) in USDC.
+  "amount" is the number of uShares to claim for, only if the user states it (defaults to their full uShare balance).
+  Include "uShareId" only if the user pastes a bytes32.
 - SELL_USHARE: if asked, mark UNSUPPORTED (this market ABI has no sell function).
-- VOTE: needs proposalId and vote. If missing, keep VOTE and add warnings.
+- VOTE: needs proposalId and vote. Pick proposalId from the open proposals above when the user describes one
+  ("the treasury proposal") or says "latest". Never invent ids. If it's unclear, keep VOTE and add warnings.
+- DELEGATE: delegate URANO voting power. "delegatee" is the address the user gives, or "self" for
+  "delegate to myself". Do not invent addresses.
 - CLAIM_VESTING: no params in JSON.
+- VESTING_STATUS: questions about the user's OWN vesting ("how much can I claim now", "when does the rest
+  unlock"). No params in JSON; the backend computes the schedule. General vesting/tokenomics questions stay QUESTION.
+
+Several actions in one message ("withdraw 50 URANO and buy 20 MILANO", "claim my vesting then stake it"):
+- Return actionType="MULTI_STEP" with "steps" in execution order (max ${MAX_PLAN_STEPS}); top-level params stay empty.
+- Each step uses the same per-action rules above; its "interpretation" names the action, amount and uShare.
+- When a step uses what an earlier step produces ("stake what I just claimed", "stake it"), set
+  "amountFromStep" to that step's number (1-based) instead of "amount".
+- userMessage summarizes the whole sequence.
 
 Keep interpretation concise. Keep userMessage under 1–3 short sentences.
 `.trim();
@@ -506,42 +896,116 @@ Keep interpretation concise. Keep userMessage under 1–3 short sentences.
       ? `${extras.SYSTEM_PROMPT.trim()}\n\n---\n\n${baseSystemPrompt}`
       : baseSystemPrompt;
 
-  const model = env.OPENAI_MODEL ?? "gpt-4.1-mini";
-
   const maxTokens = toPositiveInt(extras.OPENAI_MAX_OUTPUT_TOKENS, 0);
 
-  const reqBody: ChatCompletionCreateParamsNonStreaming = {
-    model,
-    temperature: 0.1,
-    response_format: { type: "json_object" },
-    messages: [{ role: "system", content: systemPrompt }, ...body.messages],
-    ...(maxTokens > 0 ? { max_tokens: maxTokens } : {}),
-  };
+  const llm = getLlmProvider();
+  const messages: LlmMessage[] = [{ role: "system", content: systemPrompt }, ...body.messages];
 
-  try {
-    const completion = await openai.chat.completions.create(reqBody);
-    const raw = completion.choices?.[0]?.message?.content ?? "{}";
+  const request = (msgs: readonly LlmMessage[]) =>
+    llm.completeJson({
+      temperature: 0.1,
+      messages: msgs,
+      schema: PLANNED_OUTPUT_SPEC,
+      ...(maxTokens > 0 ? { maxTokens } : {}),
+      ...(hooks.signal ? { signal: hooks.signal } : {}),
+    });
 
-    let json: unknown;
-    try {
-      json = JSON.parse(raw);
-    } catch {
-      return helpMessage();
+  try {
+    const first = validatePlannerOutput(await request(messages));
+    if (first.ok) return { ...coercePlanFromUserText(first.plan, last, ctx), producedBy: "llm" };
+
+    recordParseFailure(llm, first.kind);
+    log.warn({ model: `${llm.name}:${llm.model}`, kind: first.kind, issues: first.issues }, "planner output rejected");
+
+    // One repair round: show the model its output and what was wrong with it
+    const repair = validatePlannerOutput(
+      await request([
+        ...messages,
+        { role: "assistant", content: clampText(first.raw, 4000) || "(empty)" },
+        {
+          role: "user",
+          content: `Your previous reply was rejected:\n- ${first.issues.join("\n- ")}\nReturn the corrected JSON object only.`,
+        },
+      ])
+    );
+    if (repair.ok) {
+      recordParseRepair(llm);
+      return { ...coercePlanFromUserText(repair.plan, last, ctx), producedBy: "llm" };
     }
 
-    const parsed = PlannedSchema.safeParse(json);
-    if (!parsed.success) return helpMessage();
-
-    return coercePlanFromUserText(parsed.data, last, offerings);
+    recordParseFailure(llm, repair.kind);
+    log.warn({ model: `${llm.name}:${llm.model}`, kind: repair.kind, issues: repair.issues }, "planner repair failed");
+    return fallbackPlan(last, ctx);
   } catch {
-    return helpMessage();
+    return fallbackPlan(last, ctx);
+  }
+}
+
+type PlannerOutputCheck =
+  | Readonly<{ ok: true; plan: Planned }>
+  | Readonly<{ ok: false; kind: ParseFailureKind; issues: string[]; raw: string }>;
+
+function validatePlannerOutput(output: LlmJsonOutput): PlannerOutputCheck {
+  if (!output.ok) {
+    return { ok: false, kind: "invalid_json", issues: ["Output is not valid JSON."], raw: output.raw };
   }
+
+  const parsed = PlannedSchema.safeParse(dropNulls(output.value));
+  if (parsed.success) return { ok: true, plan: parsed.data };
+
+  return {
+    ok: false,
+    kind: "schema_mismatch",
+    issues: parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`),
+    raw: output.raw,
+  };
+}
+
+function planFromRuleSteps(steps: readonly RuleStep[]): Planned {
+  return {
+    actionType: "MULTI_STEP",
+    interpretation: clampText(steps.map((s) => s.interpretation).join(", then "), 300),
+    userMessage: `Preparing ${steps.length} steps in order:`,
+    steps: steps.map(({ userMessage: _msg, ...step }) => step),
+  };
+}
+
+/**
+ * LLM unavailable or unusable: parse the message locally. A command may end a clause of a
+ * longer sentence; questions and refusals only get quotes or the help text, never txs.
+ */
+function fallbackPlan(last: string, ctx: PlannerContext): Planned {
+  const sequence = parseIntentSequence(last, ctx.offerings);
+  if (sequence) return { ...coercePlanFromUserText(planFromRuleSteps(sequence), last, ctx), producedBy: "fallback" };
+
+  const ruled = parseIntent(last, ctx.offerings, "loose");
+  if (ruled) return { ...coercePlanFromUserText(ruled, last, ctx), producedBy: "fallback" };
+
+  const help = helpMessage();
+  return {
+    ...help,
+    producedBy: "fallback",
+    issues: [
+      planWarning(
+        "PLANNER_UNAVAILABLE",
+        "The assistant model is unavailable right now; simple commands like 'stake 100' or 'vote yes on 12' still work."
+      ),
+    ],
+  };
 }
 
 
 /* ----------------------------- QUESTION enrichment (KB -> richer answer) ----------------------------- */
 
-async function enrichQuestionAnswerFromKb(body: ChatBody, plan: Planned): Promise<Planned> {
+const KB_ANSWER_MAX_CHARS = 2000;
+const KB_RETRIEVAL_DEFAULT_TOKEN_BUDGET = 1800;
+
+async function enrichQuestionAnswerFromKb(
+  body: ChatBody,
+  plan: Planned,
+  log: FastifyBaseLogger,
+  hooks: StreamHooks = {}
+): Promise<Planned> {
   if (plan.actionType !== "QUESTION") return plan;
 
   const last = lastUserMessage(body);
@@ -551,14 +1015,26 @@ async function enrichQuestionAnswerFromKb(body: ChatBody, plan: Planned): Promis
   const kb = loadKnowledgePack();
   if (!kb) return plan;
 
-  const model = env.OPENAI_MODEL ?? "gpt-4.1-mini";
-  const kbText = formatKbForPrompt(kb);
+  const budget = env.KB_RETRIEVAL_TOKEN_BUDGET ?? KB_RETRIEVAL_DEFAULT_TOKEN_BUDGET;
+  const hits = retrievePassages(kb, last, budget);
+  log.info(
+    {
+      kbVersion: kb.version,
+      query: clampText(last, 200),
+      budget,
+      hits: hits.map((h) => ({ id: h.passage.id, score: Number(h.score.toFixed(3)) })),
+    },
+    "kb retrieval"
+  );
+
+  const kbText = formatPassagesForPrompt(kb, hits);
 
   const system = `
 You are uAssistant for the Urano project.
 
-Answer the user's question using ONLY the Knowledge Base provided.
+Answer the user's question using ONLY the Knowledge Base excerpts provided.
 If the KB does not contain the answer, say so explicitly and suggest what part of the docs to check next.
+${CITATION_INSTRUCTIONS}
 
 Style rules:
 - Be complete and practical, but avoid unnecessary marketing.
@@ -569,28 +1045,59 @@ Style rules:
 Return ONLY the answer text (no JSON).
 `.trim();
 
+  const llm = getLlmProvider();
+  const req = {
+    temperature: 0.2,
+    maxTokens: 700,
+    messages: [
+      { role: "system" as const, content: system },
+      { role: "system" as const, content: kbText },
+      { role: "user" as const, content: last },
+    ],
+    ...(hooks.signal ? { signal: hooks.signal } : {}),
+  };
+
   try {
-    const resp = await openai.chat.completions.create({
-      model,
-      temperature: 0.2,
-      max_tokens: 700,
-      messages: [
-        { role: "system", content: system },
-        { role: "system", content: kbText },
-        { role: "user", content: last },
-      ],
-    });
+    hooks.onStage?.("answering");
+
+    let answer = "";
+
+    if (hooks.onDelta) {
+      // Stream tokens to the client as they arrive; the final plan still carries the clamped answer.
+      for await (const delta of llm.streamText(req)) {
+        if (answer.length < KB_ANSWER_MAX_CHARS) hooks.onDelta(delta);
+        answer += delta;
+      }
+    } else {
+      answer = await llm.complete(req);
+    }
 
-    const answer = resp.choices?.[0]?.message?.content ?? "";
-    const safe = clampText(answer, 2000);
+    const cited = checkCitations(kb, answer, getEnvExtras().DOCS_URL);
+    const safe = clampText(cited.text, KB_ANSWER_MAX_CHARS);
 
     if (!safe) return plan;
 
+    const issues = [...(plan.issues ?? [])];
+    if (cited.unknownIds.length > 0) {
+      log.warn({ unknownIds: cited.unknownIds }, "kb answer cited unknown sections");
+      issues.push(
+        planWarning("CITATIONS_REMOVED", `Removed citations to unknown doc sections: ${cited.unknownIds.join(", ")}.`, {
+          sections: cited.unknownIds.join(","),
+        })
+      );
+    }
+    if (cited.sources.length === 0) {
+      issues.push(
+        planWarning("UNCITED_ANSWER", "This answer does not cite any documentation section; double-check it against the docs.")
+      );
+    }
+
     return {
       ...plan,
       interpretation: plan.interpretation || "Project question answered using Knowledge Base",
       userMessage: safe,
-      warnings: plan.warnings ?? [],
+      issues,
+      sources: cited.sources,
     };
   } catch {
     return plan;
@@ -599,184 +1106,1643 @@ Return ONLY the answer text (no JSON).
 
 /* ----------------------------- TX Builder ----------------------------- */
 
-function buildTxs(
-  plan: Planned,
-  body: ChatBody,
-  offerings: readonly UShareOffering[]
-): { txs: TxPreview[]; warnings: string[] } {
-  const warnings = [...(plan.warnings ?? [])];
-  const extras = getEnvExtras();
-
-  const chainId = Number(env.CHAIN_ID);
-  const uranoDecimals = toPositiveInt(extras.URANO_DECIMALS, 18);
-  const defaultUShareDecimals = toPositiveInt(extras.USHARE_DECIMALS, 18);
+/**
+ * What an action hands to later steps of a MULTI_STEP plan ("stake what I just claimed").
+ * Amounts are estimates from live reads; the chain is authoritative.
+ */
+type StepOutput = Readonly<{
+  token: "URANO" | "USDC" | "USHARE";
+  amount: bigint;
+  decimals: number;
+}>;
 
-  const STAKING = asAddress(env.URANO_STAKING, "URANO_STAKING");
-  const GOV = asAddress(env.URANO_GOVERNANCE, "URANO_GOVERNANCE");
-  const MARKET = asAddress(env.USHARE_MARKET, "USHARE_MARKET");
-  const VESTING = asAddress(env.VESTING_ADDRESS, "VESTING_ADDRESS");
-  const USDC = asAddress(env.USDC, "USDC");
+type BuiltTxs = {
+  txs: TxPreview[];
+  warnings: PlanWarning[];
+  // Set when live chain data should replace the planner's userMessage.
+  userMessage?: string;
+  signatureRequest?: SignatureRequest;
+  output?: StepOutput;
+  spent?: StepOutput; // taken out of the wallet (URANO staked), for later MULTI_STEP steps
+  steps?: PlanStepResult[]; // MULTI_STEP only
+};
 
-  const value = 0n;
+type ApprovalMode = "exact" | "unlimited";
 
-  switch (plan.actionType) {
-    case "STAKE": {
-      if (!plan.amount) return { txs: [], warnings: [...warnings, "Missing amount."] };
-      const amt = parseUnits(normalizeAmountString(plan.amount), uranoDecimals);
+/**
+ * Returns an ERC20 approve tx only when the current allowance is too low.
+ * Without a connected account we cannot read the allowance, so the approval is always included.
+ */
+async function approvalTxIfNeeded(args: {
+  chainId: number;
+  token: Address;
+  tokenLabel: string;
+  tokenDecimals: number;
+  spender: Address;
+  owner: Address | undefined;
+  amount: bigint;
+  mode: ApprovalMode;
+  warnings: PlanWarning[];
+}): Promise<TxPreview | null> {
+  const { chainId, token, tokenLabel, tokenDecimals, spender, owner, amount, mode, warnings } = args;
+
+  if (owner) {
+    const allowance = await readErc20Allowance(token, owner, spender);
+    if (allowance >= amount) return null;
+  } else {
+    warnings.push(
+      planWarning(
+        "ALLOWANCE_NOT_CHECKED",
+        `Could not check your ${tokenLabel} allowance (no connected account), so an approval tx is included.`,
+        { token: tokenLabel }
+      )
+    );
+  }
 
-      const data = encodeFunctionData({
-        abi: stakingAbi,
-        functionName: "stake",
-        args: [amt],
-      });
+  const approveAmount = mode === "unlimited" ? MAX_UINT256 : amount;
 
-      return { txs: [{ chainId, to: STAKING, data, value: value.toString() }], warnings };
-    }
+  const data = encodeFunctionData({
+    abi: erc20Abi,
+    functionName: "approve",
+    args: [spender, approveAmount],
+  });
+
+  warnings.push(
+    mode === "unlimited"
+      ? planWarning("APPROVAL_INCLUDED", `Includes an unlimited ${tokenLabel} approval.`, {
+          token: tokenLabel,
+          unlimited: true,
+        })
+      : planWarning(
+          "APPROVAL_INCLUDED",
+          `Includes a ${tokenLabel} approval for exactly ${formatUnits(amount, tokenDecimals)} ${tokenLabel}.`,
+          { token: tokenLabel, amount: formatUnits(amount, tokenDecimals), unlimited: false }
+        )
+  );
+
+  return { chainId, to: token, data, value: "0" };
+}
+
+type UShareBuyRoute =
+  | { ok: true; functionName: "buyuShare" | "buyuShareOnPreSale"; note?: PlanWarning }
+  | { ok: false; issue: PlanWarning };
+
+/**
+ * Decide between buyuShare / buyuShareOnPreSale from live sale info,
+ * or explain why the purchase cannot go through right now.
+ */
+async function resolveUShareBuyRoute(args: {
+  info: UShareInfo;
+  preSaleDuration: bigint;
+  amount: bigint;
+  decimals: number;
+  uranoDecimals: number;
+  account: Address | undefined;
+}): Promise<UShareBuyRoute> {
+  const { info, preSaleDuration, amount, decimals, uranoDecimals, account } = args;
+  const w = getUShareSaleWindow(info, preSaleDuration, nowInSeconds());
+
+  switch (w.phase) {
+    case "NOT_ACTIVE":
+      return {
+        ok: false,
+        issue: planWarning("SALE_NOT_ACTIVE", "This uShare sale is not active (it was closed or never opened)."),
+      };
+    case "SOLD_OUT":
+      return {
+        ok: false,
+        issue: planWarning(
+          "SOLD_OUT",
+          `This uShare is sold out (${formatUnits(info.uShareSold, decimals)} / ${formatUnits(info.uShareAmount, decimals)} sold).`
+        ),
+      };
+    case "NOT_STARTED":
+      return {
+        ok: false,
+        issue: planWarning(
+          "SALE_NOT_STARTED",
+          `This uShare sale has not started yet. It opens at ${formatUnixTime(info.startTime)}.`,
+          { startsAt: formatUnixTime(info.startTime) }
+        ),
+      };
+    case "ENDED":
+      return {
+        ok: false,
+        issue: planWarning("SALE_ENDED", `This uShare sale ended at ${formatUnixTime(w.saleEndsAt)}.`, {
+          endedAt: formatUnixTime(w.saleEndsAt),
+        }),
+      };
+    default:
+      break;
+  }
+
+  if (amount > w.remaining) {
+    return {
+      ok: false,
+      issue: planWarning(
+        "EXCEEDS_REMAINING_SUPPLY",
+        `Only ${formatUnits(w.remaining, decimals)} uShares are left in this sale; lower the amount.`,
+        { remaining: formatUnits(w.remaining, decimals) }
+      ),
+    };
+  }
+
+  if (w.phase === "PUBLIC_SALE") return { ok: true, functionName: "buyuShare" };
+
+  // Pre-sale: only stakers holding at least minUranoAmountForPreSale may buy.
+  const minStake = formatUnits(info.minUranoAmountForPreSale, uranoDecimals);
+  const publicAt = formatUnixTime(w.preSaleEndsAt);
+
+  if (!account) {
+    return {
+      ok: false,
+      issue: planWarning(
+        "ACCOUNT_REQUIRED",
+        `This uShare is in pre-sale until ${publicAt}, reserved for accounts with at least ${minStake} URANO staked. Connect your account (context.account) so I can check your eligibility.`,
+        { publicSaleAt: publicAt, minStake }
+      ),
+    };
+  }
+
+  // The market checks stake at the snapshot block; fall back to the latest block if the RPC can't serve it.
+  let staked: bigint;
+  let atSnapshot = info.snapshotBlock > 0n;
+  try {
+    staked = await readAmountStaked(info.uStaking, account, atSnapshot ? info.snapshotBlock : undefined);
+  } catch {
+    atSnapshot = false;
+    staked = await readAmountStaked(info.uStaking, account);
+  }
+
+  const stakedLabel = `${formatUnits(staked, uranoDecimals)} URANO staked${atSnapshot ? ` at snapshot block ${info.snapshotBlock}` : ""}`;
+
+  if (staked < info.minUranoAmountForPreSale) {
+    return {
+      ok: false,
+      issue: planWarning(
+        "PRESALE_NOT_ELIGIBLE",
+        `This uShare is in pre-sale until ${publicAt}. You are not eligible: you have ${stakedLabel}, the minimum is ${minStake} URANO. You can buy once the public sale opens.`,
+        { publicSaleAt: publicAt, minStake, staked: formatUnits(staked, uranoDecimals) }
+      ),
+    };
+  }
+
+  return {
+    ok: true,
+    functionName: "buyuShareOnPreSale",
+    note: planWarning(
+      "PRESALE_ELIGIBLE",
+      `Pre-sale purchase: you are eligible with ${stakedLabel} (minimum ${minStake} URANO).`,
+      { minStake, staked: formatUnits(staked, uranoDecimals) }
+    ),
+  };
+}
+
+type UShareQuote = Readonly<{
+  info: UShareInfo;
+  preSaleDuration: bigint;
+  window: UShareSaleWindow;
+  decimals: number;
+  usdcDecimals: number;
+  amount: bigint; // what the user asked for, in base units of `unit`
+  unit: UShareAmountUnit;
+  unitPrice: bigint; // USDC per whole uShare
+  minAmount: bigint;
+  quote: UShareBuyQuote;
+}>;
+
+/** Live price + supply read shared by QUOTE and BUY_USHARE. */
+async function readUShareQuote(args: {
+  market: Address;
+  uShareId: `0x${string}`;
+  amount: string;
+  unit: UShareAmountUnit;
+  decimals: number;
+}): Promise<UShareQuote> {
+  const { market, uShareId, unit, decimals } = args;
+
+  const [info, preSaleDuration, precision, usdcDecimals, minAmount] = await Promise.all([
+    readUShareInfo(market, uShareId),
+    readPreSaleDuration(market),
+    readUShareDecimalPrecision(market),
+    readUsdcDecimals(market),
+    readMinUShareAmountForOneUsdc(market),
+  ]);
+
+  const amount = parseUnits(normalizeAmountString(args.amount), unit === "USDC" ? usdcDecimals : decimals);
+  const window = getUShareSaleWindow(info, preSaleDuration, nowInSeconds());
+
+  return {
+    info,
+    preSaleDuration,
+    window,
+    decimals,
+    usdcDecimals,
+    amount,
+    unit,
+    unitPrice: uShareUnitPriceInUsdc(decimals, info.uSharePrice, precision),
+    minAmount,
+    quote: quoteUShareBuy({
+      amount,
+      unit,
+      uSharePrice: info.uSharePrice,
+      precision,
+      remaining: window.remaining,
+      minAmount,
+    }),
+  };
+}
+
+type UShareQuoteText = Readonly<{
+  summary: string; // "<uShares> <label> for exactly <cost> USDC (<price> USDC per uShare)"
+  rounding: string;
+  supply?: string; // set when capped by the remaining supply
+  minimum?: string; // set when below the market minimum
+}>;
+
+/** Exact amounts of a quote, with the rounding and supply caveats spelled out. */
+function describeUShareQuote(q: UShareQuote, label: string): UShareQuoteText {
+  const usdc = (v: bigint) => formatUnits(v, q.usdcDecimals);
+  const ushares = (v: bigint) => formatUnits(v, q.decimals);
+  const { uShares, usdcCost, requested } = q.quote;
+
+  const unspent = q.amount - usdcCost;
+  const rounding =
+    q.unit === "USHARE"
+      ? "The USDC cost is rounded up to the smallest USDC unit, as the market charges it."
+      : unspent > 0n
+        ? `Rounded down to what ${usdc(q.amount)} USDC covers; ${usdc(unspent)} USDC stays unspent.`
+        : `Your ${usdc(q.amount)} USDC is spent exactly.`;
+
+  return {
+    summary: `${ushares(uShares)} ${label} for exactly ${usdc(usdcCost)} USDC (${usdc(q.unitPrice)} USDC per uShare)`,
+    rounding,
+    ...(q.quote.cappedBySupply
+      ? { supply: `Only ${ushares(q.window.remaining)} uShares are left in this sale (you asked for ${ushares(requested)}).` }
+      : {}),
+    ...(uShares === 0n || q.quote.belowMinimum
+      ? { minimum: `${ushares(uShares)} ${label} is below the market minimum of ${ushares(q.minAmount)} uShares per purchase.` }
+      : {}),
+  };
+}
+
+const DELEGATION_SIGNATURE_TTL_SEC = 3600n;
+
+/**
+ * Voting power comes from URANO checkpoints, which only count once the holder
+ * has delegated (to themselves or someone else).
+ */
+async function votingPowerWarnings(account: Address, uranoDecimals: number): Promise<PlanWarning[]> {
+  const URANO = asAddress(env.URANO_TOKEN, "URANO_TOKEN");
+
+  const [votes, delegatee] = await Promise.all([
+    readVotes(URANO, account),
+    readDelegate(URANO, account),
+  ]);
+
+  const out: PlanWarning[] = [];
+  if (/^0x0{40}$/i.test(delegatee)) {
+    out.push(
+      planWarning(
+        "NOT_DELEGATED",
+        "You have never delegated your URANO votes. Say 'delegate my votes to myself' to activate your voting power."
+      )
+    );
+  }
+  if (votes === 0n) {
+    out.push(planWarning("NO_VOTING_POWER", "Your current voting power is 0 URANO; this vote may revert."));
+  } else {
+    const power = formatUnits(votes, uranoDecimals);
+    out.push(planWarning("VOTING_POWER", `Your voting power: ${power} URANO.`, { votes: power }));
+  }
+  return out;
+}
+
+/** Model free-text notes first, then the typed issues the server found while planning. */
+function planIssues(
+  plan: Readonly<{ warnings?: string[] | undefined; issues?: PlanWarning[] | undefined }>
+): PlanWarning[] {
+  return [...(plan.warnings ?? []).map(plannerNote), ...(plan.issues ?? [])];
+}
+
+async function buildTxs(
+  plan: Planned,
+  body: ChatBody,
+  offerings: readonly UShareOffering[],
+  // Outputs of earlier MULTI_STEP steps; their txs run first in the same batch
+  prior: readonly StepOutput[] = [],
+  // What those earlier steps take out of the wallet
+  priorSpent: readonly StepOutput[] = []
+): Promise<BuiltTxs> {
+  const warnings = planIssues(plan);
+  const extras = getEnvExtras();
+
+  const chainId = Number(env.CHAIN_ID);
+  const uranoDecimals = toPositiveInt(extras.URANO_DECIMALS, 18);
+  const defaultUShareDecimals = toPositiveInt(extras.USHARE_DECIMALS, 18);
+
+  const STAKING = asAddress(env.URANO_STAKING, "URANO_STAKING");
+  const GOV = asAddress(env.URANO_GOVERNANCE, "URANO_GOVERNANCE");
+  const MARKET = asAddress(env.USHARE_MARKET, "USHARE_MARKET");
+  const VESTING = asAddress(env.VESTING_ADDRESS, "VESTING_ADDRESS");
+  const USDC = asAddress(env.USDC, "USDC");
+
+  const value = 0n;
+
+  const account = body.context?.account;
+  const approvalMode: ApprovalMode = body.context?.approvalMode ?? "exact";
+
+  switch (plan.actionType) {
+    case "STAKE": {
+      if (!plan.amount) return { txs: [], warnings: [...warnings, planWarning("MISSING_AMOUNT", "Missing amount.")] };
+      const amt = parseUnits(normalizeAmountString(plan.amount), uranoDecimals);
+      const URANO = asAddress(env.URANO_TOKEN, "URANO_TOKEN");
+
+      const approveTx = await approvalTxIfNeeded({
+        chainId,
+        token: URANO,
+        tokenLabel: "URANO",
+        tokenDecimals: uranoDecimals,
+        spender: STAKING,
+        owner: account,
+        amount: amt,
+        mode: approvalMode,
+        warnings,
+      });
+
+      const data = encodeFunctionData({
+        abi: stakingAbi,
+        functionName: "stake",
+        args: [amt],
+      });
+
+      const stakeTx: TxPreview = { chainId, to: STAKING, data, value: value.toString() };
+      return {
+        txs: approveTx ? [approveTx, stakeTx] : [stakeTx],
+        warnings,
+        spent: { token: "URANO", amount: amt, decimals: uranoDecimals },
+      };
+    }
 
     case "UNSTAKE": {
-      if (!plan.amount) return { txs: [], warnings: [...warnings, "Missing amount."] };
+      if (!plan.amount) return { txs: [], warnings: [...warnings, planWarning("MISSING_AMOUNT", "Missing amount.")] };
       const amt = parseUnits(normalizeAmountString(plan.amount), uranoDecimals);
 
-      const data = encodeFunctionData({
-        abi: stakingAbi,
-        functionName: "unstake",
-        args: [amt],
+      // The staking contract exposes withdraw(), not unstake().
+      const data = encodeFunctionData({
+        abi: stakingAbi,
+        functionName: "withdraw",
+        args: [amt],
+      });
+
+      return {
+        txs: [{ chainId, to: STAKING, data, value: value.toString() }],
+        warnings,
+        output: { token: "URANO", amount: amt, decimals: uranoDecimals },
+      };
+    }
+
+    case "STAKE_ALL": {
+      if (!account) {
+        return {
+          txs: [],
+          warnings: [
+            ...warnings,
+            planWarning("ACCOUNT_REQUIRED", "To stake your full balance, I need your connected account (context.account)."),
+          ],
+        };
+      }
+
+      const URANO = asAddress(env.URANO_TOKEN, "URANO_TOKEN");
+
+      // Net of earlier steps in the same plan: URANO they release (unstake, claims) is staked
+      // too, URANO they stake themselves is not there anymore
+      const sumUrano = (list: readonly StepOutput[]) =>
+        list.filter((o) => o.token === "URANO").reduce((sum, o) => sum + o.amount, 0n);
+      const inflow = sumUrano(prior);
+      const outflow = sumUrano(priorSpent);
+      const available = (await readUranoBalance(URANO, account)) + inflow - outflow;
+      const balance = available > 0n ? available : 0n;
+
+      if (balance === 0n) {
+        return {
+          txs: [],
+          warnings: [...warnings, planWarning("NOTHING_TO_STAKE", "Your URANO wallet balance is 0, nothing to stake.")],
+        };
+      }
+
+      const approveTx = await approvalTxIfNeeded({
+        chainId,
+        token: URANO,
+        tokenLabel: "URANO",
+        tokenDecimals: uranoDecimals,
+        spender: STAKING,
+        owner: account,
+        amount: balance,
+        mode: approvalMode,
+        warnings,
+      });
+
+      const data = encodeFunctionData({
+        abi: stakingAbi,
+        functionName: "stake",
+        args: [balance],
+      });
+
+      const stakeTx: TxPreview = { chainId, to: STAKING, data, value: value.toString() };
+
+      return {
+        txs: approveTx ? [approveTx, stakeTx] : [stakeTx],
+        warnings,
+        spent: { token: "URANO", amount: balance, decimals: uranoDecimals },
+        userMessage:
+          inflow > 0n || outflow > 0n
+            ? `Staking your full wallet balance after the previous steps: ${formatUnits(balance, uranoDecimals)} URANO.`
+            : `Staking your full wallet balance: ${formatUnits(balance, uranoDecimals)} URANO.`,
+      };
+    }
+
+    case "UNSTAKE_ALL": {
+      if (!account) {
+        return {
+          txs: [],
+          warnings: [
+            ...warnings,
+            planWarning("ACCOUNT_REQUIRED", "To unstake everything, I need your connected account (context.account)."),
+          ],
+        };
+      }
+
+      const staked = await readAmountStaked(STAKING, account);
+
+      if (staked === 0n) {
+        return {
+          txs: [],
+          warnings: [...warnings, planWarning("NOTHING_TO_UNSTAKE", "You have no URANO staked, nothing to unstake.")],
+        };
+      }
+
+      const data = encodeFunctionData({
+        abi: stakingAbi,
+        functionName: "withdraw",
+        args: [staked],
+      });
+
+      return {
+        txs: [{ chainId, to: STAKING, data, value: value.toString() }],
+        warnings,
+        userMessage: `Unstaking your full staked amount: ${formatUnits(staked, uranoDecimals)} URANO.`,
+        output: { token: "URANO", amount: staked, decimals: uranoDecimals },
+      };
+    }
+
+    case "CLAIM_STAKING_REWARDS": {
+      const data = encodeFunctionData({
+        abi: stakingAbi,
+        functionName: "claimRewards",
+        args: [],
+      });
+
+      const tx: TxPreview = { chainId, to: STAKING, data, value: value.toString() };
+
+      if (!account) {
+        return {
+          txs: [tx],
+          warnings: [
+            ...warnings,
+            planWarning(
+              "REWARDS_NOT_SHOWN",
+              "Connect your account (context.account) to see your earned rewards before claiming."
+            ),
+          ],
+        };
+      }
+
+      const info = await readStakingUserInfo(STAKING, account);
+
+      if (info.rewardEarned === 0n) {
+        warnings.push(
+          planWarning(
+            "NO_REWARDS_YET",
+            "No rewards are recorded for your account yet; the claim may revert if nothing has accrued."
+          )
+        );
+      }
+
+      return {
+        txs: [tx],
+        warnings,
+        userMessage: `Claiming your staking rewards. Rewards earned so far: ${formatUnits(info.rewardEarned, uranoDecimals)} URANO.`,
+        output: { token: "URANO", amount: info.rewardEarned, decimals: uranoDecimals },
+      };
+    }
+
+    case "VOTE": {
+      if (typeof plan.proposalId !== "number" || typeof plan.vote !== "boolean") {
+        return {
+          txs: [],
+          warnings: [...warnings, planWarning("MISSING_VOTE_PARAMS", "Missing proposalId or vote choice.")],
+        };
+      }
+
+      const proposal = await readProposal(GOV, BigInt(plan.proposalId));
+      if (isEmptyProposal(proposal)) {
+        const open = openProposals(await loadRecentProposals(GOV));
+        const reason = `Proposal #${plan.proposalId} does not exist.`;
+        return {
+          txs: [],
+          warnings: [...warnings, planWarning("PROPOSAL_NOT_FOUND", reason, { proposalId: plan.proposalId })],
+          userMessage: open.length > 0 ? `${reason} Open proposals: ${formatProposalsForPrompt(open)}` : reason,
+        };
+      }
+      const tally = `Current tally: ${formatUnits(proposal.votesFor, uranoDecimals)} for / ${formatUnits(proposal.votesAgainst, uranoDecimals)} against.`;
+
+      const closed = proposalClosedReason(proposal);
+      if (closed) {
+        return {
+          txs: [],
+          warnings: [...warnings, planWarning("PROPOSAL_CLOSED", closed, { proposalId: plan.proposalId })],
+          userMessage: `${closed} ${tally}`,
+        };
+      }
+
+      if (account && env.URANO_TOKEN) {
+        warnings.push(...(await votingPowerWarnings(account, uranoDecimals)));
+      }
+
+      const data = encodeFunctionData({
+        abi: governanceAbi,
+        functionName: "vote",
+        args: [BigInt(plan.proposalId), plan.vote],
+      });
+
+      const desc = clampText(proposal.description, 160);
+
+      return {
+        txs: [{ chainId, to: GOV, data, value: value.toString() }],
+        warnings,
+        userMessage: `Voting ${plan.vote ? "FOR" : "AGAINST"} proposal #${plan.proposalId} ("${desc}"), open until ${formatUnixTime(proposal.endTime)}. ${tally}`,
+      };
+    }
+
+    case "DELEGATE": {
+      if (!plan.delegatee) {
+        return { txs: [], warnings: [...warnings, planWarning("MISSING_DELEGATEE", "Missing delegatee address.")] };
+      }
+
+      if (plan.delegatee === "self" && !account) {
+        return {
+          txs: [],
+          warnings: [
+            ...warnings,
+            planWarning("ACCOUNT_REQUIRED", "To delegate to yourself, I need your connected account (context.account)."),
+          ],
+        };
+      }
+
+      const URANO = asAddress(env.URANO_TOKEN, "URANO_TOKEN");
+      const delegatee: Address = plan.delegatee === "self" ? account! : plan.delegatee;
+      const target = account && delegatee.toLowerCase() === account.toLowerCase() ? "yourself" : delegatee;
+
+      if (plan.gasless) {
+        if (!account) {
+          return {
+            txs: [],
+            warnings: [
+              ...warnings,
+              planWarning(
+                "ACCOUNT_REQUIRED",
+                "To prepare a gasless delegation signature, I need your connected account (context.account)."
+              ),
+            ],
+          };
+        }
+
+        const [nonce, domain] = await Promise.all([
+          readNonce(URANO, account),
+          publicClient.getEip712Domain({ address: URANO }),
+        ]);
+
+        const expiry = nowInSeconds() + DELEGATION_SIGNATURE_TTL_SEC;
+
+        return {
+          txs: [],
+          warnings,
+          signatureRequest: {
+            kind: "DELEGATE_BY_SIG",
+            primaryType: "Delegation",
+            domain: {
+              name: domain.domain.name,
+              version: domain.domain.version,
+              chainId: Number(domain.domain.chainId),
+              verifyingContract: domain.domain.verifyingContract,
+            },
+            types: {
+              Delegation: [
+                { name: "delegatee", type: "address" },
+                { name: "nonce", type: "uint256" },
+                { name: "expiry", type: "uint256" },
+              ],
+            },
+            message: { delegatee, nonce: nonce.toString(), expiry: expiry.toString() },
+          },
+          userMessage: `Sign this message to delegate your URANO votes to ${target} without paying gas. Anyone can then submit it with delegateBySig before ${formatUnixTime(expiry)}.`,
+        };
+      }
+
+      const data = encodeFunctionData({
+        abi: uranoTokenAbi,
+        functionName: "delegate",
+        args: [delegatee],
+      });
+
+      return {
+        txs: [{ chainId, to: URANO, data, value: value.toString() }],
+        warnings,
+        userMessage: `Delegating your URANO voting power to ${target}.`,
+      };
+    }
+
+    case "BUY_USHARE": {
+      if (!plan.amount) {
+        return { txs: [], warnings: [...warnings, planWarning("MISSING_AMOUNT", "Missing amount.")] };
+      }
+
+      const uShareId = plan.uShareId;
+      if (!uShareId) {
+        // A clarification already asks which uShare
+        const issue = planWarning("MISSING_USHARE_ID", "Missing uShareId (bytes32).");
+        return { txs: [], warnings: plan.clarification ? warnings : [...warnings, issue] };
+      }
+
+      const found = offerings.find((o) => o.uShareId.toLowerCase() === uShareId.toLowerCase());
+      const decimals = typeof found?.decimals === "number" ? found.decimals : defaultUShareDecimals;
+      const unit = plan.amountUnit ?? "USHARE";
+
+      const q = await readUShareQuote({ market: MARKET, uShareId, amount: plan.amount, unit, decimals });
+      const { info, preSaleDuration, usdcDecimals } = q;
+      const described = describeUShareQuote(q, found ? found.symbol : "uShares");
+
+      // A USDC budget is capped to the remaining supply; an explicit uShare amount over it is refused by the route
+      const amt = unit === "USDC" ? q.quote.uShares : q.amount;
+
+      const minimum = { minimum: formatUnits(q.minAmount, decimals) };
+      if (unit === "USDC" && described.minimum) {
+        const reason = `${plan.amount} USDC is not enough for a purchase: ${described.minimum}`;
+        const issue = planWarning("BELOW_MINIMUM_PURCHASE", reason, minimum);
+        return { txs: [], warnings: [...warnings, issue], userMessage: reason };
+      }
+
+      const route = await resolveUShareBuyRoute({
+        info,
+        preSaleDuration,
+        amount: amt,
+        decimals,
+        uranoDecimals,
+        account,
+      });
+
+      if (!route.ok) {
+        return { txs: [], warnings: [...warnings, route.issue], userMessage: route.issue.message };
+      }
+      if (route.note) warnings.push(route.note);
+      if (described.supply) {
+        const remaining = formatUnits(q.window.remaining, decimals);
+        warnings.push(planWarning("SUPPLY_CAPPED", described.supply, { remaining }));
+      }
+      if (described.minimum) {
+        const reason = `${described.minimum} The market may reject this purchase.`;
+        warnings.push(planWarning("BELOW_MINIMUM_PURCHASE", reason, minimum));
+      }
+
+      // Tx1 (only when needed): approve USDC spending for market
+      const cost = q.quote.usdcCost;
+      const approveTx = await approvalTxIfNeeded({
+        chainId,
+        token: USDC,
+        tokenLabel: "USDC",
+        tokenDecimals: usdcDecimals,
+        spender: MARKET,
+        owner: account,
+        amount: cost,
+        mode: approvalMode,
+        warnings,
+      });
+
+      // Tx2: Buy
+      const buyData = encodeFunctionData({
+        abi: uShareMarketAbi,
+        functionName: route.functionName,
+        args: [uShareId, amt],
+      });
+
+      const buyTx: TxPreview = { chainId, to: MARKET, data: buyData, value: value.toString() };
+
+      if (approveTx) {
+        warnings.push(
+          planWarning(
+            "MULTIPLE_TXS",
+            "This action returns 2 transactions: (1) USDC approval to the market, then (2) buy.",
+            { count: 2 }
+          )
+        );
+      }
+
+      if (found) {
+        const selected = `Selected uShare: ${found.name} (${found.symbol}).`;
+        warnings.push(planWarning("USHARE_SELECTED", selected, { uShareId: found.uShareId, symbol: found.symbol }));
+      }
+
+      // The exact cost is stated before the user signs the approval
+      const first = approveTx ? " The USDC approval comes first." : "";
+      return {
+        txs: approveTx ? [approveTx, buyTx] : [buyTx],
+        warnings,
+        userMessage: `Buying ${described.summary}. ${described.rounding}${first}`,
+        output: { token: "USHARE", amount: amt, decimals },
+      };
+    }
+
+    case "QUOTE": {
+      if (!plan.amount) return { txs: [], warnings: [...warnings, planWarning("MISSING_AMOUNT", "Missing amount.")] };
+
+      const uShareId = plan.uShareId;
+      if (!uShareId) {
+        const issue = planWarning("MISSING_USHARE_ID", "Missing uShareId (bytes32).");
+        return { txs: [], warnings: plan.clarification ? warnings : [...warnings, issue] };
+      }
+
+      const found = offerings.find((o) => o.uShareId.toLowerCase() === uShareId.toLowerCase());
+      const decimals = typeof found?.decimals === "number" ? found.decimals : defaultUShareDecimals;
+
+      // Read-only: no account or approval needed
+      const q = await readUShareQuote({
+        market: MARKET,
+        uShareId,
+        amount: plan.amount,
+        unit: plan.amountUnit ?? "USHARE",
+        decimals,
+      });
+      const described = describeUShareQuote(q, found ? found.symbol : "uShares");
+
+      const lines = [
+        `Quote: ${described.summary}.`,
+        described.rounding,
+        ...(described.supply ? [described.supply] : []),
+        ...(described.minimum ? [described.minimum] : []),
+        `Sale status: ${salePhaseLabel(q.window.phase)}.`,
+      ];
+      if (q.window.phase === "PRE_SALE") {
+        lines.push(
+          `Pre-sale purchases need at least ${formatUnits(q.info.minUranoAmountForPreSale, uranoDecimals)} URANO staked until ${formatUnixTime(q.window.preSaleEndsAt)}.`
+        );
+      }
+
+      return { txs: [], warnings, userMessage: lines.join(" ") };
+    }
+
+    case "CLAIM_REDISTRIBUTION": {
+      const uShareId = plan.uShareId;
+      if (!uShareId) {
+        const issue = planWarning("MISSING_USHARE_ID", "Missing uShareId (bytes32).");
+        return { txs: [], warnings: plan.clarification ? warnings : [...warnings, issue] };
+      }
+
+      const found = offerings.find((o) => o.uShareId.toLowerCase() === uShareId.toLowerCase());
+      const decimals = typeof found?.decimals === "number" ? found.decimals : defaultUShareDecimals;
+      const label = found ? `${found.name} (${found.symbol})` : "uShares";
+      // "Milano Condo (MILANO) uShares", or just "uShares" for an unlisted id
+      const holding = found ? `${label} uShares` : label;
+
+      const [info, usdcDecimals] = await Promise.all([
+        readUShareInfo(MARKET, uShareId),
+        readUsdcDecimals(MARKET),
+      ]);
+
+      if (info.amountOfUSDCProfits === 0n) {
+        const reason = `There is no active cashflow redistribution for ${label} right now.`;
+        return { txs: [], warnings: [...warnings, planWarning("NO_ACTIVE_PAYOUT", reason)], userMessage: reason };
+      }
+
+      // Default to the user's full uShare balance when no amount was given.
+      let shares: bigint;
+      if (plan.amount) {
+        shares = parseUnits(normalizeAmountString(plan.amount), decimals);
+      } else {
+        if (!account) {
+          return {
+            txs: [],
+            warnings: [
+              ...warnings,
+              planWarning(
+                "ACCOUNT_REQUIRED",
+                "To claim for your full uShare balance, I need your connected account (context.account) or an amount."
+              ),
+            ],
+          };
+        }
+        shares = await readErc20Balance(found?.uShareToken ?? info.uShareToken, account);
+      }
+
+      if (shares === 0n) {
+        const reason = `You hold no ${holding}, so there is nothing to claim.`;
+        return { txs: [], warnings: [...warnings, planWarning("NO_USHARES_HELD", reason)], userMessage: reason };
+      }
+
+      // Pro-rata share of the profits over the full uShare supply (estimate; the contract is authoritative).
+      const estimate = info.uShareAmount > 0n ? (info.amountOfUSDCProfits * shares) / info.uShareAmount : 0n;
+
+      const data = encodeFunctionData({
+        abi: uShareMarketAbi,
+        functionName: "claimRedistribution",
+        args: [uShareId, shares],
+      });
+
+      return {
+        txs: [{ chainId, to: MARKET, data, value: value.toString() }],
+        warnings,
+        userMessage: `Claiming the ${label} payout for ${formatUnits(shares, decimals)} uShares. Estimated USDC due: ~${formatUnits(estimate, usdcDecimals)} USDC.`,
+        output: { token: "USDC", amount: estimate, decimals: usdcDecimals },
+      };
+    }
+
+    case "VESTING_STATUS":
+    case "CLAIM_VESTING": {
+      const isClaim = plan.actionType === "CLAIM_VESTING";
+
+      if (!account) {
+        return {
+          txs: [],
+          warnings: [
+            ...warnings,
+            planWarning(
+              "ACCOUNT_REQUIRED",
+              `To ${isClaim ? "claim" : "check"} vesting, I need your connected account (context.account).`
+            ),
+          ],
+        };
+      }
+
+      // Prefer what the client sent; otherwise look up the allocation + proof server-side.
+      const vest = body.context?.vesting ?? findVestingAllocation(account);
+
+      if (!vest) {
+        return {
+          txs: [],
+          warnings: [
+            ...warnings,
+            isVestingLookupEnabled()
+              ? planWarning("VESTING_ALLOCATION_NOT_FOUND", "No vesting allocation found for your connected account.")
+              : planWarning(
+                  "VESTING_RECORD_REQUIRED",
+                  `To ${isClaim ? "claim" : "check"} vesting, I need your vesting record + Merkle proof (context.vesting).`
+                ),
+          ],
+        };
+      }
+
+      if (account.toLowerCase() !== vest.data.beneficiary.toLowerCase()) {
+        return {
+          txs: [],
+          warnings: [
+            ...warnings,
+            planWarning(
+              "BENEFICIARY_MISMATCH",
+              "Vesting claim blocked: connected account does not match the vesting beneficiary."
+            ),
+          ],
+        };
+      }
+
+      const dataTuple = {
+        beneficiary: vest.data.beneficiary,
+        totalAmount: BigInt(vest.data.totalAmount),
+        cliffInSeconds: BigInt(vest.data.cliffInSeconds),
+        vestingInSeconds: BigInt(vest.data.vestingInSeconds),
+        tgePercentage: BigInt(vest.data.tgePercentage),
+      };
+
+      const [claimable, totalClaimed, tgeOnChain] = await Promise.all([
+        readVestingClaimable(VESTING, dataTuple, vest.merkleProof),
+        readVestingTotalClaimed(VESTING, dataTuple.beneficiary),
+        readVestingTgeTimestamp(VESTING).catch(() => null),
+      ]);
+
+      const tgeTimestamp = tgeOnChain ?? (env.TGE_TIMESTAMP !== undefined ? BigInt(env.TGE_TIMESTAMP) : null);
+      const timeline =
+        tgeTimestamp !== null
+          ? formatVestingSchedule(
+              computeVestingSchedule(dataTuple, tgeTimestamp, nowInSeconds()),
+              dataTuple.totalAmount,
+              uranoDecimals,
+              "URANO"
+            )
+          : "";
+
+      const claimedLine = `Already claimed: ${formatUnits(totalClaimed, uranoDecimals)} URANO. Claimable now: ${formatUnits(claimable, uranoDecimals)} URANO.`;
+      const summary = [claimedLine, timeline].filter(Boolean).join(" ");
+
+      if (!isClaim) {
+        return { txs: [], warnings, userMessage: summary };
+      }
+
+      if (claimable === 0n) {
+        const reason = "Nothing to claim right now.";
+        return {
+          txs: [],
+          warnings: [...warnings, planWarning("NOTHING_TO_CLAIM", reason)],
+          userMessage: `${reason} ${summary}`,
+        };
+      }
+
+      const data = encodeFunctionData({
+        abi: vestingAbi,
+        functionName: "claim",
+        args: [dataTuple, vest.merkleProof],
+      });
+
+      return {
+        txs: [{ chainId, to: VESTING, data, value: value.toString() }],
+        warnings,
+        userMessage: `Claiming ${formatUnits(claimable, uranoDecimals)} URANO of vested tokens. ${summary}`,
+        output: { token: "URANO", amount: claimable, decimals: uranoDecimals },
+      };
+    }
+
+    case "QUESTION":
+    case "UNSUPPORTED":
+    default:
+      return { txs: [], warnings };
+  }
+}
+
+// Unit of a step's `amount`, for amountFromStep hand-offs
+const STEP_AMOUNT_TOKEN: Partial<Record<PlanStep["actionType"], StepOutput["token"]>> = {
+  STAKE: "URANO",
+  UNSTAKE: "URANO",
+  BUY_USHARE: "USHARE",
+  CLAIM_REDISTRIBUTION: "USHARE",
+};
+
+function tokenLabel(token: StepOutput["token"]): string {
+  return token === "USHARE" ? "uShares" : token;
+}
+
+type StepAmount = { ok: true; amount?: string; amountUnit?: UShareAmountUnit } | { ok: false; reason: string };
+
+function resolveStepAmount(step: PlanStep, n: number, outputs: ReadonlyArray<StepOutput | undefined>): StepAmount {
+  const ref = step.amountFromStep;
+  if (ref === undefined) return { ok: true, ...(step.amount ? { amount: step.amount } : {}) };
+
+  if (ref >= n) return { ok: false, reason: `it uses the amount from step ${ref}, which does not run before it` };
+
+  const out = outputs[ref - 1];
+  if (!out || out.amount === 0n) {
+    return { ok: false, reason: `it uses the amount from step ${ref}, which has nothing to hand over` };
+  }
+
+  // A USDC payout can fund a buy ("claim my MILANO payout and put it into ROMA")
+  if (step.actionType === "BUY_USHARE" && out.token === "USDC") {
+    return { ok: true, amount: formatUnits(out.amount, out.decimals), amountUnit: "USDC" };
+  }
+
+  const expected = STEP_AMOUNT_TOKEN[step.actionType];
+  if (expected !== out.token) {
+    return { ok: false, reason: `step ${ref} produces ${tokenLabel(out.token)}, which this action cannot use` };
+  }
+
+  return { ok: true, amount: formatUnits(out.amount, out.decimals) };
+}
+
+/**
+ * Build each MULTI_STEP step with the regular per-action builders and merge the
+ * txs in step order (each step's approvals stay right before its action). A
+ * failed step doesn't stop independent later steps; steps that depend on it are skipped.
+ */
+async function buildPlanSteps(
+  plan: Planned,
+  body: ChatBody,
+  offerings: readonly UShareOffering[]
+): Promise<BuiltTxs> {
+  const txs: TxPreview[] = [];
+  const steps: PlanStepResult[] = [];
+  const outputs: Array<StepOutput | undefined> = [];
+  const spent: StepOutput[] = [];
+  let signatureRequest: SignatureRequest | undefined;
+
+  for (const [i, step] of (plan.steps ?? []).entries()) {
+    const n = i + 1;
+
+    const amount = resolveStepAmount(step, n, outputs);
+    if (!amount.ok) {
+      outputs.push(undefined);
+      steps.push({
+        step: n,
+        actionType: step.actionType,
+        interpretation: step.interpretation,
+        userMessage: `Skipped: ${step.interpretation}.`,
+        warnings: [...planIssues(step), planWarning("STEP_SKIPPED", `Skipped because ${amount.reason}.`)],
+        txIndexes: [],
       });
-
-      return { txs: [{ chainId, to: STAKING, data, value: value.toString() }], warnings };
+      continue;
     }
 
-    case "STAKE_ALL": {
-      const data = encodeFunctionData({
-        abi: stakingAbi,
-        functionName: "stakeAll",
-        args: [],
-      });
+    const { amountFromStep: _ref, amount: _amount, ...params } = step;
+    const stepPlan: Planned = {
+      ...params,
+      ...(amount.amount ? { amount: amount.amount } : {}),
+      ...(amount.amountUnit ? { amountUnit: amount.amountUnit } : {}),
+      userMessage: step.interpretation,
+    };
 
-      return { txs: [{ chainId, to: STAKING, data, value: value.toString() }], warnings };
+    let built: BuiltTxs;
+    try {
+      const prior = outputs.filter((o): o is StepOutput => o !== undefined);
+      built = await buildTxs(stepPlan, body, offerings, prior, spent);
+    } catch (e: unknown) {
+      const issue = planWarning("TX_BUILD_FAILED", e instanceof Error ? e.message : "TX_BUILD_FAILED");
+      built = { txs: [], warnings: [...planIssues(step), issue] };
     }
 
-    case "UNSTAKE_ALL": {
-      const data = encodeFunctionData({
-        abi: stakingAbi,
-        functionName: "unstakeAll",
-        args: [],
-      });
+    const start = txs.length;
+    txs.push(...built.txs);
+    outputs.push(built.output);
+    if (built.spent) spent.push(built.spent);
+    signatureRequest ??= built.signatureRequest;
+
+    steps.push({
+      step: n,
+      actionType: step.actionType,
+      interpretation: step.interpretation,
+      userMessage: built.userMessage ?? stepPlan.userMessage,
+      warnings: built.warnings,
+      txIndexes: built.txs.map((_, j) => start + j),
+      ...(built.signatureRequest ? { signatureRequest: built.signatureRequest } : {}),
+    });
+  }
 
-      return { txs: [{ chainId, to: STAKING, data, value: value.toString() }], warnings };
-    }
+  return {
+    txs,
+    // Flattened copy for clients that only read top-level warnings
+    warnings: [
+      ...planIssues(plan),
+      ...steps.flatMap((s) =>
+        s.warnings.map((w) => ({
+          ...w,
+          message: `Step ${s.step}: ${w.message}`,
+          params: { ...w.params, step: s.step },
+        }))
+      ),
+    ],
+    userMessage: [plan.userMessage, ...steps.map((s) => `${s.step}. ${s.userMessage}`)].join("\n"),
+    ...(signatureRequest ? { signatureRequest } : {}),
+    steps,
+  };
+}
 
-    case "VOTE": {
-      if (typeof plan.proposalId !== "number" || typeof plan.vote !== "boolean") {
-        return { txs: [], warnings: [...warnings, "Missing proposalId or vote choice."] };
-      }
+/**
+ * Open proposals for planner context. Governance is optional config and RPC
+ * hiccups must not break chat, so failures degrade to an empty list.
+ */
+async function loadOpenProposalsSafe(): Promise<readonly GovernanceProposal[]> {
+  const gov = (env.URANO_GOVERNANCE ?? "").trim();
+  if (!/^0x[a-fA-F0-9]{40}$/.test(gov)) return [];
 
-      const data = encodeFunctionData({
-        abi: governanceAbi,
-        functionName: "vote",
-        args: [BigInt(plan.proposalId), plan.vote],
-      });
+  try {
+    return openProposals(await loadRecentProposals(gov as Address));
+  } catch {
+    return [];
+  }
+}
+
+async function loadPortfolioSafe(
+  account: Address | undefined,
+  offerings: readonly UShareOffering[]
+): Promise<AccountPortfolio | null> {
+  if (!account) return null;
+  try {
+    return await loadAccountPortfolio(account, offerings);
+  } catch {
+    return null;
+  }
+}
+
+async function loadCatalogSafe(offerings: readonly UShareOffering[]): Promise<OfferingsCatalog | null> {
+  if (offerings.length === 0) return null;
+  try {
+    return await loadOfferingsCatalog(offerings);
+  } catch {
+    return null;
+  }
+}
+
+async function loadPlannerContext(
+  body: ChatBody,
+  offerings: readonly UShareOffering[],
+  previousPlan: Planned | null
+): Promise<PlannerContext> {
+  const [catalog, proposals, portfolio] = await Promise.all([
+    loadCatalogSafe(offerings),
+    loadOpenProposalsSafe(),
+    loadPortfolioSafe(body.context?.account, offerings),
+  ]);
+  return { offerings, catalog, proposals, portfolio, previousPlan };
+}
+
+/* ----------------------------- Balance guards ----------------------------- */
+
+// Balances while walking a plan; null = unknown (unreadable, or moved by an earlier step by an unknown amount)
+type Ledger = {
+  urano: bigint | null;
+  staked: bigint | null;
+  rewards: bigint | null;
+  vesting: bigint | null;
+  usdc: bigint | null;
+  uShares: Map<string, bigint | null>; // lowercased uShareId -> balance
+};
+
+type GuardEnv = Readonly<{
+  offerings: readonly UShareOffering[];
+  uranoDecimals: number;
+  usdcDecimals: number;
+  defaultUShareDecimals: number;
+}>;
+
+type GuardResult =
+  | { ok: true; plan: Planned; notes: PlanWarning[] }
+  | { ok: false; issue: PlanWarning; offer?: BalanceOffer };
+
+// Actions whose amount is checked against a balance (QUOTE only to resolve "25%" budgets)
+const BALANCE_CHECKED = new Set<Planned["actionType"]>([
+  "STAKE",
+  "UNSTAKE",
+  "BUY_USHARE",
+  "CLAIM_REDISTRIBUTION",
+  "QUOTE",
+  "MULTI_STEP",
+]);
+
+function rawAmount(a: TokenAmount | null | undefined): bigint | null {
+  return a ? BigInt(a.raw) : null;
+}
+
+function ledgerFromPortfolio(p: AccountPortfolio): Ledger {
+  return {
+    urano: rawAmount(p.urano.balance),
+    staked: rawAmount(p.staking.staked),
+    rewards: rawAmount(p.staking.rewardEarned),
+    vesting: rawAmount(p.vesting?.claimable),
+    usdc: rawAmount(p.usdc.balance),
+    uShares: new Map(p.uShares.map((u) => [u.uShareId.toLowerCase(), rawAmount(u.balance)])),
+  };
+}
+
+const addKnown = (a: bigint | null, b: bigint | null): bigint | null => (a !== null && b !== null ? a + b : null);
 
-      return { txs: [{ chainId, to: GOV, data, value: value.toString() }], warnings };
+function hasPercentAmount(plan: Planned): boolean {
+  const amounts = plan.actionType === "MULTI_STEP" ? (plan.steps ?? []).map((s) => s.amount) : [plan.amount];
+  return amounts.some((a) => a !== undefined && percentAmountBps(a) !== null);
+}
+
+/** "50%" of `balance`, rounded down; any other amount parsed as-is. */
+function resolveGuardAmount(
+  amount: string,
+  balance: bigint | null,
+  decimals: number,
+  what: string,
+  unit: string
+): { ok: true; value: bigint; note?: PlanWarning } | { ok: false; issue: PlanWarning } {
+  const bps = percentAmountBps(amount);
+  if (bps === null) {
+    // Model amounts are free text; anything that isn't a plain decimal blocks instead of throwing
+    try {
+      return { ok: true, value: parseUnits(normalizeAmountString(amount), decimals) };
+    } catch {
+      const reason = `I couldn't read "${amount}" as an amount. Give a number, like 100 or 12.5.`;
+      return { ok: false, issue: planWarning("INVALID_AMOUNT", reason, { amount }) };
     }
+  }
 
-    case "BUY_USHARE": {
-      if (!plan.amount) {
-        return { txs: [], warnings: [...warnings, "Missing amount."] };
+  if (balance === null) {
+    const reason = `I couldn't read your ${what}, so I can't work out ${amount} of it.`;
+    return { ok: false, issue: planWarning("BALANCE_UNAVAILABLE", reason, { percent: amount }) };
+  }
+  const value = (balance * bps) / 10_000n;
+  if (value === 0n) {
+    return { ok: false, issue: planWarning("INSUFFICIENT_BALANCE", `${amount} of your ${what} is 0.`, { percent: amount }) };
+  }
+  const formatted = formatUnits(value, decimals);
+  return {
+    ok: true,
+    value,
+    note: planWarning("PERCENT_RESOLVED", `${amount} of your ${what} is ${formatted} ${unit}.`, {
+      percent: amount,
+      amount: formatted,
+      unit,
+    }),
+  };
+}
+
+/**
+ * Check one action against the ledger and apply its effect, so later MULTI_STEP
+ * steps see the balances earlier steps leave behind.
+ */
+async function guardAction(plan: Planned, ledger: Ledger, g: GuardEnv, linked: boolean): Promise<GuardResult> {
+  const notes: PlanWarning[] = [];
+  const fmtUrano = (v: bigint) => `${formatUnits(v, g.uranoDecimals)} URANO`;
+  const fmtUsdc = (v: bigint) => `${formatUnits(v, g.usdcDecimals)} USDC`;
+
+  switch (plan.actionType) {
+    case "STAKE":
+    case "UNSTAKE": {
+      const stake = plan.actionType === "STAKE";
+      if (linked || !plan.amount) {
+        // Amount handed over from an earlier step: only the direction is known
+        ledger.urano = null;
+        ledger.staked = null;
+        return { ok: true, plan, notes };
       }
 
-      const uShareId = plan.uShareId;
-      if (!uShareId) {
+      const source = stake ? ledger.urano : ledger.staked;
+      const what = stake ? "URANO wallet balance" : "staked URANO";
+      const amt = resolveGuardAmount(plan.amount, source, g.uranoDecimals, what, "URANO");
+      if (!amt.ok) return amt;
+      if (amt.note) notes.push(amt.note);
+
+      if (source === null) {
+        notes.push(planWarning("BALANCE_NOT_CHECKED", `I couldn't read your ${what}, so this amount was not checked.`));
+      } else if (amt.value > source) {
+        if (source === 0n) {
+          return {
+            ok: false,
+            issue: stake
+              ? planWarning("NOTHING_TO_STAKE", "You have no URANO in your wallet to stake.")
+              : planWarning("NOTHING_TO_UNSTAKE", "You have no URANO staked."),
+          };
+        }
+        const verb = stake ? "stake" : "unstake";
         return {
-          txs: [],
-          warnings: [...warnings, "Missing uShareId (bytes32)."],
+          ok: false,
+          issue: planWarning(
+            "INSUFFICIENT_BALANCE",
+            `You want to ${verb} ${fmtUrano(amt.value)}, but your ${what} is ${fmtUrano(source)}.`,
+            {
+              token: "URANO",
+              required: formatUnits(amt.value, g.uranoDecimals),
+              available: formatUnits(source, g.uranoDecimals),
+            }
+          ),
+          offer: {
+            question: `${stake ? "Stake" : "Unstake"} all ${fmtUrano(source)} instead?`,
+            reply: `${verb} all`,
+            plan: stake
+              ? {
+                  actionType: "STAKE_ALL",
+                  interpretation: "Stake the full URANO wallet balance",
+                  userMessage: "Preparing a stake of your full URANO balance.",
+                }
+              : {
+                  actionType: "UNSTAKE_ALL",
+                  interpretation: "Unstake the full staked URANO amount",
+                  userMessage: "Preparing to unstake all of your staked URANO.",
+                },
+          },
         };
       }
 
-      const found = offerings.find((o) => o.uShareId.toLowerCase() === uShareId.toLowerCase());
-      const decimals = typeof found?.decimals === "number" ? found.decimals : defaultUShareDecimals;
+      const delta = stake ? amt.value : -amt.value;
+      ledger.urano = addKnown(ledger.urano, -delta);
+      ledger.staked = addKnown(ledger.staked, delta);
+      return { ok: true, plan: { ...plan, amount: formatUnits(amt.value, g.uranoDecimals) }, notes };
+    }
 
-      const amt = parseUnits(normalizeAmountString(plan.amount), decimals);
+    case "STAKE_ALL":
+      ledger.staked = addKnown(ledger.staked, ledger.urano);
+      ledger.urano = ledger.urano === null ? null : 0n;
+      return { ok: true, plan, notes };
 
-      // Tx1: Approve USDC spending for market
-      const approveData = encodeFunctionData({
-        abi: erc20ApproveAbi,
-        functionName: "approve",
-        args: [MARKET, MAX_UINT256],
-      });
+    case "UNSTAKE_ALL":
+      ledger.urano = addKnown(ledger.urano, ledger.staked);
+      ledger.staked = ledger.staked === null ? null : 0n;
+      return { ok: true, plan, notes };
 
-      // Tx2: Buy
-      const buyData = encodeFunctionData({
-        abi: uShareMarketAbi,
-        functionName: "buyuShare",
-        args: [uShareId, amt],
-      });
+    case "CLAIM_STAKING_REWARDS":
+      ledger.urano = addKnown(ledger.urano, ledger.rewards);
+      ledger.rewards = 0n;
+      return { ok: true, plan, notes };
 
-      warnings.push(
-        "This action returns 2 transactions: (1) USDC approval to the market, then (2) buy. If you already approved USDC for this market, you can skip tx #1."
-      );
+    case "CLAIM_VESTING":
+      ledger.urano = addKnown(ledger.urano, ledger.vesting);
+      ledger.vesting = 0n;
+      return { ok: true, plan, notes };
 
-      if (found) warnings.push(`Selected uShare: ${found.name} (${found.symbol}).`);
+    case "QUOTE":
+    case "BUY_USHARE": {
+      const uShareKey = plan.uShareId?.toLowerCase();
+      if (linked || !plan.amount || !uShareKey) {
+        if (plan.actionType === "BUY_USHARE") {
+          ledger.usdc = null;
+          if (uShareKey) ledger.uShares.set(uShareKey, null);
+        }
+        return { ok: true, plan, notes };
+      }
 
-      return {
-        txs: [
-          { chainId, to: USDC, data: approveData, value: value.toString() },
-          { chainId, to: MARKET, data: buyData, value: value.toString() },
-        ],
-        warnings,
-      };
-    }
+      const found = g.offerings.find((o) => o.uShareId.toLowerCase() === uShareKey);
+      const decimals = typeof found?.decimals === "number" ? found.decimals : g.defaultUShareDecimals;
+
+      // A share of a balance is always a USDC budget ("25% of my USDC")
+      const percent = percentAmountBps(plan.amount) !== null;
+      const unit = percent ? "USDC" : (plan.amountUnit ?? "USHARE");
+      const amt = resolveGuardAmount(
+        plan.amount,
+        ledger.usdc,
+        unit === "USDC" ? g.usdcDecimals : decimals,
+        "USDC balance",
+        "USDC"
+      );
+      if (!amt.ok) return amt;
+      if (amt.note) notes.push(amt.note);
 
-    case "CLAIM_VESTING": {
-      const account = body.context?.account;
-      const vest = body.context?.vesting;
+      const resolved: Planned = {
+        ...plan,
+        amount: formatUnits(amt.value, unit === "USDC" ? g.usdcDecimals : decimals),
+        amountUnit: unit,
+      };
+      if (plan.actionType === "QUOTE") return { ok: true, plan: resolved, notes };
 
-      if (!account) {
-        return {
-          txs: [],
-          warnings: [...warnings, "To claim vesting, I need your connected account (context.account)."],
-        };
+      // A USDC budget is an upper bound on the cost; a uShare amount needs the live price
+      let cost: bigint | null = unit === "USDC" ? amt.value : null;
+      if (cost === null && ledger.usdc !== null) {
+        try {
+          const market = asAddress(env.USHARE_MARKET, "USHARE_MARKET");
+          const q = await readUShareQuote({ market, uShareId: plan.uShareId!, amount: resolved.amount!, unit, decimals });
+          cost = q.quote.usdcCost;
+        } catch {
+          notes.push(
+            planWarning(
+              "BALANCE_NOT_CHECKED",
+              "I couldn't read the live price, so the USDC cost was not checked against your balance."
+            )
+          );
+        }
       }
 
-      if (!vest) {
+      if (ledger.usdc === null) {
+        notes.push(planWarning("BALANCE_NOT_CHECKED", "I couldn't read your USDC balance, so the cost was not checked."));
+      } else if (cost !== null && cost > ledger.usdc) {
+        if (ledger.usdc === 0n) {
+          return {
+            ok: false,
+            issue: planWarning("INSUFFICIENT_BALANCE", "You have no USDC to buy uShares with.", {
+              token: "USDC",
+              required: formatUnits(cost, g.usdcDecimals),
+              available: "0",
+            }),
+          };
+        }
+        const symbol = found?.symbol ?? "uShares";
+        const budget = formatUnits(ledger.usdc, g.usdcDecimals);
         return {
-          txs: [],
-          warnings: [...warnings, "To claim vesting, I need your vesting record + Merkle proof (context.vesting)."],
+          ok: false,
+          issue: planWarning(
+            "INSUFFICIENT_BALANCE",
+            unit === "USDC"
+              ? `You want to spend ${fmtUsdc(cost)}, but your USDC balance is ${fmtUsdc(ledger.usdc)}.`
+              : `This purchase costs ${fmtUsdc(cost)}, but your USDC balance is ${fmtUsdc(ledger.usdc)}.`,
+            { token: "USDC", required: formatUnits(cost, g.usdcDecimals), available: budget }
+          ),
+          ...(found
+            ? {
+                offer: {
+                  question: `Spend your full ${budget} USDC on ${symbol} instead?`,
+                  reply: `put ${budget} usdc into ${symbol}`,
+                  plan: {
+                    actionType: "BUY_USHARE",
+                    interpretation: `Buy ${found.name} (${symbol}) for ${budget} USDC`,
+                    userMessage: `Preparing to buy ${found.name} (${symbol}) for ${budget} USDC.`,
+                    amount: budget,
+                    amountUnit: "USDC",
+                    uShareId: found.uShareId,
+                  },
+                },
+              }
+            : {}),
         };
       }
 
-      if (account.toLowerCase() !== vest.data.beneficiary.toLowerCase()) {
+      ledger.usdc = cost !== null ? addKnown(ledger.usdc, -cost) : null;
+      ledger.uShares.set(uShareKey, unit === "USHARE" ? addKnown(ledger.uShares.get(uShareKey) ?? null, amt.value) : null);
+      return { ok: true, plan: resolved, notes };
+    }
+
+    case "CLAIM_REDISTRIBUTION": {
+      const uShareKey = plan.uShareId?.toLowerCase();
+      // The payout size is only known on-chain
+      ledger.usdc = null;
+      if (linked || !plan.amount || !uShareKey) return { ok: true, plan, notes };
+
+      const found = g.offerings.find((o) => o.uShareId.toLowerCase() === uShareKey);
+      const decimals = typeof found?.decimals === "number" ? found.decimals : g.defaultUShareDecimals;
+      const label = found ? found.symbol : "uShares";
+      const held = ledger.uShares.get(uShareKey) ?? null;
+
+      const amt = resolveGuardAmount(plan.amount, held, decimals, `${label} balance`, label);
+      if (!amt.ok) return amt;
+      if (amt.note) notes.push(amt.note);
+
+      if (held !== null && amt.value > held) {
+        if (held === 0n) {
+          return { ok: false, issue: planWarning("NO_USHARES_HELD", `You hold no ${label}, so there is no payout to claim.`) };
+        }
+        const [required, available] = [formatUnits(amt.value, decimals), formatUnits(held, decimals)];
         return {
-          txs: [],
-          warnings: [...warnings, "Vesting claim blocked: connected account does not match the vesting beneficiary."],
+          ok: false,
+          issue: planWarning(
+            "INSUFFICIENT_BALANCE",
+            `You want to claim for ${required} ${label}, but you hold ${available}.`,
+            { token: label, required, available }
+          ),
+          offer: {
+            question: `Claim the payout for all ${formatUnits(held, decimals)} ${label} instead?`,
+            reply: `claim my ${label} payout`,
+            plan: {
+              actionType: "CLAIM_REDISTRIBUTION",
+              interpretation: `Claim the ${label} payout for the full balance`,
+              userMessage: `Preparing to claim your ${label} payout.`,
+              uShareId: plan.uShareId!,
+            },
+          },
         };
       }
 
-      const dataTuple = {
-        beneficiary: vest.data.beneficiary,
-        totalAmount: BigInt(vest.data.totalAmount),
-        cliffInSeconds: BigInt(vest.data.cliffInSeconds),
-        vestingInSeconds: BigInt(vest.data.vestingInSeconds),
-        tgePercentage: BigInt(vest.data.tgePercentage),
-      };
+      return { ok: true, plan: { ...plan, amount: formatUnits(amt.value, decimals) }, notes };
+    }
 
-      const data = encodeFunctionData({
-        abi: vestingAbi,
-        functionName: "claim",
-        args: [dataTuple, vest.merkleProof],
-      });
+    default:
+      return { ok: true, plan, notes };
+  }
+}
+
+function blockedPlan(plan: Planned, issue: PlanWarning, offer?: BalanceOffer): Planned {
+  const reason = issue.message;
+  return {
+    ...plan,
+    userMessage: offer ? `${reason} ${offer.question} Reply "${offer.reply}".` : reason,
+    issues: [...(plan.issues ?? []), issue],
+    blocked: { reason, ...(offer ? { offer } : {}) },
+  };
+}
 
-      return { txs: [{ chainId, to: VESTING, data, value: value.toString() }], warnings };
+/**
+ * Check amounts against the connected account's URANO, USDC and uShare balances
+ * and staked amount before any tx is built. Resolves "50%" amounts; plans that
+ * exceed a balance are blocked, with an adjusted plan offered when one makes sense.
+ */
+async function applyBalanceGuards(plan: Planned, body: ChatBody, ctx: PlannerContext): Promise<Planned> {
+  if (!BALANCE_CHECKED.has(plan.actionType) || plan.clarification) return plan;
+
+  const account = body.context?.account;
+  const percent = hasPercentAmount(plan);
+
+  if (!ctx.portfolio) {
+    if (percent) {
+      return blockedPlan(
+        plan,
+        account
+          ? planWarning(
+              "BALANCE_UNAVAILABLE",
+              "I couldn't read your balances right now, so I can't work out a share of them. Try again or give an exact amount."
+            )
+          : planWarning(
+              "ACCOUNT_REQUIRED",
+              "Connect your account (context.account) so I can work out a share of your balance, or give an exact amount."
+            )
+      );
     }
+    if (plan.actionType === "QUOTE") return plan;
+    const skipped = account
+      ? "Balance checks were skipped: your balances could not be read right now."
+      : "Balance checks were skipped: no account connected (context.account).";
+    return { ...plan, issues: [...(plan.issues ?? []), planWarning("BALANCE_CHECK_SKIPPED", skipped)] };
+  }
 
-    case "QUESTION":
-    case "UNSUPPORTED":
-    default:
-      return { txs: [], warnings };
+  const extras = getEnvExtras();
+  const g: GuardEnv = {
+    offerings: ctx.offerings,
+    uranoDecimals: toPositiveInt(extras.URANO_DECIMALS, 18),
+    usdcDecimals: ctx.portfolio.usdc.decimals,
+    defaultUShareDecimals: toPositiveInt(extras.USHARE_DECIMALS, 18),
+  };
+  const ledger = ledgerFromPortfolio(ctx.portfolio);
+
+  if (plan.actionType !== "MULTI_STEP") {
+    const r = await guardAction(plan, ledger, g, false);
+    if (!r.ok) return blockedPlan(plan, r.issue, r.offer);
+    return r.notes.length > 0 ? { ...r.plan, issues: [...(r.plan.issues ?? []), ...r.notes] } : r.plan;
+  }
+
+  // Steps see the balances earlier steps leave behind; any step over budget blocks the plan
+  const steps: PlanStep[] = [];
+  for (const [i, step] of (plan.steps ?? []).entries()) {
+    const { amountFromStep, ...params } = step;
+    const r = await guardAction(
+      { ...params, userMessage: step.interpretation },
+      ledger,
+      g,
+      amountFromStep !== undefined
+    );
+    if (!r.ok) {
+      const message = `Step ${i + 1} (${step.interpretation}): ${r.issue.message}`;
+      return blockedPlan(plan, { ...r.issue, message, params: { ...r.issue.params, step: i + 1 } });
+    }
+
+    steps.push({
+      ...step,
+      ...(r.plan.amount && amountFromStep === undefined ? { amount: r.plan.amount } : {}),
+      ...(r.plan.amountUnit ? { amountUnit: r.plan.amountUnit } : {}),
+      ...(r.notes.length > 0 ? { issues: [...(step.issues ?? []), ...r.notes] } : {}),
+    });
+  }
+  return { ...plan, steps };
+}
+
+/* ----------------------------- Conversation sessions ----------------------------- */
+
+type ChatSession = Readonly<{
+  body: ChatBody;
+  conversation: Conversation | null; // null in stateless mode
+  previousPlan: Planned | null;
+}>;
+
+/**
+ * Turn a request into the history the planner sees.
+ * - `messages` without `message`: stateless, as before.
+ * - `message` (+ optional `conversationId`): load/create the session and append the new message.
+ * Returns null when the conversationId is unknown.
+ */
+async function resolveChatSession(req: ChatRequest): Promise<ChatSession | null> {
+  const context = req.context ? { context: req.context } : {};
+
+  if (!req.message) {
+    return { body: { messages: req.messages ?? [], ...context }, conversation: null, previousPlan: null };
+  }
+
+  const store = getConversationStore();
+  const conversation = req.conversationId ? await store.get(req.conversationId) : await store.create();
+  if (!conversation) return null;
+
+  const history = conversation.messages
+    .slice(-(MAX_SESSION_HISTORY - 1))
+    .map((m) => ({ role: m.role, content: clampText(m.content, 8000) }));
+
+  const lastStored = conversation.plans[conversation.plans.length - 1];
+  const previous = lastStored ? PlannedSchema.safeParse(lastStored.planned) : null;
+
+  return {
+    body: { messages: [...history, { role: "user", content: req.message }], ...context },
+    conversation,
+    previousPlan: previous?.success ? previous.data : null,
+  };
+}
+
+/**
+ * Persist the turn (user message, assistant reply, plan) and tag the response
+ * with its conversationId. Store failures are logged, never surfaced.
+ */
+async function recordTurn(
+  session: ChatSession,
+  plan: Planned,
+  out: AssistantPlan,
+  log: FastifyBaseLogger
+): Promise<AssistantPlan> {
+  if (!session.conversation) return out;
+
+  const id = session.conversation.id;
+  const userText = lastUserMessage(session.body);
+  const at = Date.now();
+
+  try {
+    await getConversationStore().append(id, {
+      messages: [
+        { role: "user", content: userText, at },
+        { role: "assistant", content: out.userMessage, at },
+      ],
+      plan: { at, planned: plan, response: out },
+    });
+  } catch (e) {
+    log.error({ err: e, conversationId: id }, "Failed to persist conversation turn");
   }
+
+  return { ...out, conversationId: id };
 }
 
-function makeOut(plan: Planned, txs: TxPreview[], warnings: string[]): AssistantPlan {
+function makeOut(
+  plan: Planned,
+  txs: TxPreview[],
+  warnings: PlanWarning[],
+  signatureRequest?: SignatureRequest,
+  steps?: PlanStepResult[]
+): AssistantPlan {
   const id = crypto.randomUUID();
   const extras = getEnvExtras();
 
@@ -785,8 +2751,9 @@ function makeOut(plan: Planned, txs: TxPreview[], warnings: string[]): Assistant
 
   const tx: TxPreview | null = txs.length > 0 ? txs[0]! : null;
 
-  const base: Omit<AssistantPlan, "docsUrl" | "supportEmail"> = {
+  const base: Omit<AssistantPlan, "signatureRequest" | "docsUrl" | "supportEmail"> = {
     id,
+    producedBy: plan.producedBy ?? "llm",
     actionType: plan.actionType,
     interpretation: plan.interpretation,
     userMessage: plan.userMessage,
@@ -797,11 +2764,112 @@ function makeOut(plan: Planned, txs: TxPreview[], warnings: string[]): Assistant
 
   return {
     ...base,
+    ...(steps ? { steps } : {}),
+    ...(signatureRequest ? { signatureRequest } : {}),
+    ...(plan.clarification ? { clarification: plan.clarification } : {}),
+    ...(plan.blocked?.offer ? { offer: { question: plan.blocked.offer.question, reply: plan.blocked.offer.reply } } : {}),
+    ...(plan.sources && plan.sources.length > 0 ? { sources: plan.sources } : {}),
     ...(docsUrl ? { docsUrl } : {}),
     ...(supportEmail ? { supportEmail } : {}),
   };
 }
 
+function formatPlanResponse(out: AssistantPlan, version: PlanResponseVersion = 1): PlanResponseV1 | PlanResponseV2 {
+  const { warnings, steps, ...rest } = out;
+  if (version === 1) {
+    return {
+      ...rest,
+      responseVersion: 1,
+      warnings: warningMessages(warnings),
+      ...(steps ? { steps: steps.map((s) => ({ ...s, warnings: warningMessages(s.warnings) })) } : {}),
+    };
+  }
+  return {
+    ...rest,
+    responseVersion: 2,
+    ...splitWarnings(warnings),
+    ...(steps ? { steps: steps.map((s) => ({ ...s, ...splitWarnings(s.warnings) })) } : {}),
+  };
+}
+
+/**
+ * Simulate every preview from the user's account and turn known reverts into warnings.
+ * Simulation problems (RPC down, etc.) never block the plan.
+ */
+async function attachSimulations(
+  txs: TxPreview[],
+  account: Address | undefined
+): Promise<{ txs: TxPreview[]; warnings: PlanWarning[] }> {
+  if (!account) {
+    return { txs, warnings: [planWarning("SIMULATION_SKIPPED", "Transactions were not simulated (no connected account).")] };
+  }
+
+  let sims: TxSimulation[];
+  try {
+    sims = await simulateTxs(account, txs);
+  } catch {
+    return { txs, warnings: [planWarning("SIMULATION_SKIPPED", "Transactions could not be simulated right now.")] };
+  }
+
+  const warnings: PlanWarning[] = [];
+  const out = txs.map((tx, i) => {
+    const simulation = sims[i];
+    if (!simulation) return tx;
+    if (!simulation.ok && !simulation.skipped && simulation.error) {
+      const message = `Tx #${i + 1}: ${friendlyRevertMessage(simulation.error)}`;
+      warnings.push(planWarning("SIMULATION_REVERTED", message, { tx: i + 1 }));
+    }
+    return { ...tx, simulation };
+  });
+
+  return { txs: out, warnings };
+}
+
+/**
+ * Build txs for a plan and shape the response. Builder errors become warnings
+ * so the user still gets the planner's answer.
+ */
+async function finalizePlan(
+  plan: Planned,
+  body: ChatBody,
+  offerings: readonly UShareOffering[],
+  hooks: StreamHooks = {}
+): Promise<AssistantPlan> {
+  let out = plan;
+  let txs: TxPreview[] = [];
+  let warnings = planIssues(plan);
+  let signatureRequest: SignatureRequest | undefined;
+  let steps: PlanStepResult[] | undefined;
+
+  if (plan.blocked) return makeOut(out, txs, warnings);
+
+  try {
+    hooks.onStage?.("building_txs");
+    const built =
+      plan.actionType === "MULTI_STEP"
+        ? await buildPlanSteps(plan, body, offerings)
+        : await buildTxs(plan, body, offerings);
+    txs = built.txs;
+    warnings = built.warnings;
+    signatureRequest = built.signatureRequest;
+    steps = built.steps;
+    if (built.userMessage) out = { ...out, userMessage: built.userMessage };
+  } catch (e: unknown) {
+    warnings = [...warnings, planWarning("TX_BUILD_FAILED", e instanceof Error ? e.message : "TX_BUILD_FAILED")];
+    txs = [];
+  }
+
+  // Multi-step txs are simulated as one bundle, so later steps see earlier state changes
+  if (txs.length > 0) {
+    hooks.onStage?.("simulating");
+    const simulated = await attachSimulations(txs, body.context?.account);
+    txs = simulated.txs;
+    warnings = [...warnings, ...simulated.warnings];
+  }
+
+  return makeOut(out, txs, warnings, signatureRequest, steps);
+}
+
 /* ----------------------------- Routes ----------------------------- */
 
 export const chatRoutes: FastifyPluginAsync = async (app) => {
@@ -811,49 +2879,46 @@ export const chatRoutes: FastifyPluginAsync = async (app) => {
       return reply.code(400).send({ error: "BAD_REQUEST", issues: parsed.error.issues });
     }
 
-    let offerings: readonly UShareOffering[] = [];
-    try {
-      offerings = getUShareOfferings();
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : "Invalid USHARE_OFFERINGS_JSON";
-      return reply.code(500).send({ error: "CONFIG_ERROR", message: msg });
-    }
-
-    let plan = await planFromMessages(parsed.data, offerings);
-plan = await enrichQuestionAnswerFromKb(parsed.data, plan);
+    const loaded = await loadUShareOfferings();
+    if (!loaded.ok) return reply.code(500).send({ error: "CONFIG_ERROR", message: loaded.message });
+    const offerings = loaded.offerings;
 
+    const session = await resolveChatSession(parsed.data);
+    if (!session) {
+      return reply.code(404).send({ error: "CONVERSATION_NOT_FOUND" });
+    }
 
-    let txs: TxPreview[] = [];
-    let warnings = [...(plan.warnings ?? [])];
+    const body = session.body;
+    const ctx = await loadPlannerContext(body, offerings, session.previousPlan);
 
-    try {
-      const built = buildTxs(plan, parsed.data, offerings);
-      txs = built.txs;
-      warnings = built.warnings;
-    } catch (e: unknown) {
-      warnings = [...warnings, e instanceof Error ? e.message : "TX_BUILD_FAILED"];
-      txs = [];
-    }
+    let plan = await planFromMessages(body, ctx, req.log);
+    plan = await enrichQuestionAnswerFromKb(body, plan, req.log);
+    plan = await applyBalanceGuards(plan, body, ctx);
 
-    const out = makeOut(plan, txs, warnings);
-    return reply.send(out);
+    const out = await finalizePlan(plan, body, offerings);
+    // An offered adjustment becomes the plan a "yes" confirms
+    const recorded = await recordTurn(session, plan.blocked?.offer?.plan ?? plan, out, req.log);
+    return reply.send(formatPlanResponse(recorded, parsed.data.responseVersion));
   });
 
-  // Stream (SSE): emits ready -> plan -> done
+  // Stream (SSE): emits ready -> stage* -> delta* (KB answers) -> plan -> done
   app.post("/stream", async (req, reply) => {
     const parsed = ChatBodySchema.safeParse(req.body);
     if (!parsed.success) {
       return reply.code(400).send({ error: "BAD_REQUEST", issues: parsed.error.issues });
     }
 
-    let offerings: readonly UShareOffering[] = [];
-    try {
-      offerings = getUShareOfferings();
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : "Invalid USHARE_OFFERINGS_JSON";
-      return reply.code(500).send({ error: "CONFIG_ERROR", message: msg });
+    const loaded = await loadUShareOfferings();
+    if (!loaded.ok) return reply.code(500).send({ error: "CONFIG_ERROR", message: loaded.message });
+    const offerings = loaded.offerings;
+
+    const session = await resolveChatSession(parsed.data);
+    if (!session) {
+      return reply.code(404).send({ error: "CONVERSATION_NOT_FOUND" });
     }
 
+    const body = session.body;
+
     const origin = req.headers.origin;
     const allowList = (env.CORS_ORIGIN ?? "")
       .split(",")
@@ -905,29 +2970,42 @@ plan = await enrichQuestionAnswerFromKb(parsed.data, plan);
     reply.raw.on("close", onClose);
     reply.raw.on("error", onClose);
 
+    // Writes after a client disconnect are dropped
+    const send = (event: string, data: unknown): void => {
+      if (abort.signal.aborted || reply.raw.writableEnded) return;
+      reply.raw.write(sseEvent(event, data));
+    };
+
+    const hooks: StreamHooks = {
+      signal: abort.signal,
+      onStage: (stage) => send("stage", { stage }),
+      onDelta: (text) => send("delta", { text }),
+    };
+
     try {
-      reply.raw.write(sseEvent("ready", { ok: true, id: reqId }));
+      send("ready", {
+        ok: true,
+        id: reqId,
+        ...(session.conversation ? { conversationId: session.conversation.id } : {}),
+      });
 
-      let plan = await planFromMessages(parsed.data, offerings);
-plan = await enrichQuestionAnswerFromKb(parsed.data, plan);
+      hooks.onStage?.("planning");
+      const ctx = await loadPlannerContext(body, offerings, session.previousPlan);
 
+      let plan = await planFromMessages(body, ctx, req.log, hooks);
+      if (abort.signal.aborted) return;
 
-      let txs: TxPreview[] = [];
-      let warnings = [...(plan.warnings ?? [])];
+      plan = await enrichQuestionAnswerFromKb(body, plan, req.log, hooks);
+      if (abort.signal.aborted) return;
 
-      try {
-        const built = buildTxs(plan, parsed.data, offerings);
-        txs = built.txs;
-        warnings = built.warnings;
-      } catch (e: unknown) {
-        warnings = [...warnings, e instanceof Error ? e.message : "TX_BUILD_FAILED"];
-        txs = [];
-      }
+      hooks.onStage?.("checking_balances");
+      plan = await applyBalanceGuards(plan, body, ctx);
 
-      const out = makeOut(plan, txs, warnings);
+      const out = await finalizePlan(plan, body, offerings, hooks);
 
-      reply.raw.write(sseEvent("plan", out));
-      reply.raw.write(sseEvent("done", { ok: true }));
+      const recorded = await recordTurn(session, plan.blocked?.offer?.plan ?? plan, out, req.log);
+      send("plan", formatPlanResponse(recorded, parsed.data.responseVersion));
+      send("done", { ok: true });
       cleanup();
     } catch (err: unknown) {
       if (!abort.signal.aborted) {
@@ -0,0 +1,19 @@
+import type { FastifyPluginAsync } from "fastify";
+
+import { loadOfferingsCatalog } from "../lib/offeringsCatalog";
+import { loadUShareOfferings } from "../lib/uShareRegistry";
+
+export const offeringsRoutes: FastifyPluginAsync = async (app) => {
+  // Every registry uShare with its live sale status (same data the planner sees)
+  app.get("/", async (_req, reply) => {
+    const loaded = await loadUShareOfferings();
+    if (!loaded.ok) return reply.code(500).send({ error: "CONFIG_ERROR", message: loaded.message });
+
+    try {
+      return reply.send(await loadOfferingsCatalog(loaded.offerings));
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "Chain read failed";
+      return reply.code(502).send({ error: "CHAIN_READ_FAILED", message: msg });
+    }
+  });
+};
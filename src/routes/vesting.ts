@@ -0,0 +1,30 @@
+import type { FastifyPluginAsync } from "fastify";
+import { z } from "zod";
+import type { Address } from "viem";
+
+import { findVestingAllocation, isVestingLookupEnabled } from "../lib/vestingAllocations";
+
+const ParamsSchema = z.object({
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid EVM address"),
+});
+
+export const vestingRoutes: FastifyPluginAsync = async (app) => {
+  // Allocation record + Merkle proof for a beneficiary (ready to pass to Vesting.claim)
+  app.get("/:address", async (req, reply) => {
+    const parsed = ParamsSchema.safeParse(req.params);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: "BAD_REQUEST", issues: parsed.error.issues });
+    }
+
+    if (!isVestingLookupEnabled()) {
+      return reply.code(503).send({ error: "VESTING_LOOKUP_DISABLED" });
+    }
+
+    const allocation = findVestingAllocation(parsed.data.address as Address);
+    if (!allocation) {
+      return reply.code(404).send({ error: "NOT_FOUND" });
+    }
+
+    return reply.send(allocation);
+  });
+};
@@ -1,5 +1,5 @@
 import Fastify from "fastify";
-import type { FastifyLoggerOptions } from "fastify";
+import type { FastifyLoggerOptions, FastifyRequest } from "fastify";
 import cors from "@fastify/cors";
 import rateLimit from "@fastify/rate-limit";
 import type { LoggerOptions } from "pino";
@@ -7,6 +7,12 @@ import crypto from "node:crypto";
 
 import { env } from "./lib/env";
 import { chatRoutes } from "./routes/chat";
+import { vestingRoutes } from "./routes/vesting";
+import { accountRoutes } from "./routes/account";
+import { adminRoutes } from "./routes/admin";
+import { offeringsRoutes } from "./routes/offerings";
+import { initVestingAllocations } from "./lib/vestingAllocations";
+import { activeKnowledgePackInfo } from "./lib/knowledgePack";
 
 const isDev = env.NODE_ENV !== "production";
 
@@ -24,10 +30,15 @@ const logger: FastifyLoggerOptions & LoggerOptions = isDev
     }
   : { level: "info" };
 
-// API key used to protect /chat
+// API key used to protect /chat and the data routes
 // Set this in Railway Variables as: UASSISTANT_API_KEY=your_secret_value
 const CHAT_API_KEY = (process.env.UASSISTANT_API_KEY ?? "").trim();
 
+const PROTECTED_PREFIXES = ["/chat", "/vesting", "/account", "/offerings"];
+
+// Separate key for operator routes (/admin*). Unset = admin routes disabled.
+const ADMIN_API_KEY = (process.env.UASSISTANT_ADMIN_KEY ?? "").trim();
+
 function timingSafeEquals(a: string, b: string): boolean {
   const aBuf = Buffer.from(a);
   const bBuf = Buffer.from(b);
@@ -35,6 +46,17 @@ function timingSafeEquals(a: string, b: string): boolean {
   return crypto.timingSafeEqual(aBuf, bBuf);
 }
 
+function requestApiKey(headers: FastifyRequest["headers"]): string {
+  const xApiKey = headers["x-api-key"];
+  const auth = headers["authorization"];
+
+  return typeof xApiKey === "string"
+    ? xApiKey
+    : typeof auth === "string" && auth.toLowerCase().startsWith("bearer ")
+      ? auth.slice(7).trim()
+      : "";
+}
+
 async function main(): Promise<void> {
   const app = Fastify({ logger });
 
@@ -61,12 +83,22 @@ async function main(): Promise<void> {
     allowList: (req) => req.url === "/health",
   });
 
-  // Auth gate only for /chat*
+  // Auth gate only for PROTECTED_PREFIXES (/chat*, /vesting*, /account*, /offerings*); /admin* uses ADMIN_API_KEY
   // Supports:
   //  - Authorization: Bearer <key>
   //  - x-api-key: <key>
   app.addHook("onRequest", async (req, reply) => {
-    if (!req.url.startsWith("/chat")) return;
+    if (req.url.startsWith("/admin")) {
+      if (!ADMIN_API_KEY) return reply.code(404).send({ error: "NOT_FOUND" });
+
+      const key = requestApiKey(req.headers);
+      if (!key || !timingSafeEquals(key, ADMIN_API_KEY)) {
+        return reply.code(401).send({ error: "UNAUTHORIZED" });
+      }
+      return;
+    }
+
+    if (!PROTECTED_PREFIXES.some((p) => req.url.startsWith(p))) return;
 
     // ✅ allow CORS preflight through (no API key on OPTIONS)
     if (req.method === "OPTIONS") return;
@@ -80,24 +112,23 @@ async function main(): Promise<void> {
       return;
     }
 
-    const xApiKey = req.headers["x-api-key"];
-    const auth = req.headers["authorization"];
-
-    const fromHeader =
-      typeof xApiKey === "string"
-        ? xApiKey
-        : typeof auth === "string" && auth.toLowerCase().startsWith("bearer ")
-          ? auth.slice(7).trim()
-          : "";
+    const fromHeader = requestApiKey(req.headers);
 
     if (!fromHeader || !timingSafeEquals(fromHeader, CHAT_API_KEY)) {
       return reply.code(401).send({ error: "UNAUTHORIZED" });
     }
   });
 
-  app.get("/health", async () => ({ ok: true }));
+  app.get("/health", async () => ({ ok: true, knowledgePack: activeKnowledgePackInfo() }));
 
   await app.register(chatRoutes, { prefix: "/chat" });
+  await app.register(vestingRoutes, { prefix: "/vesting" });
+  await app.register(accountRoutes, { prefix: "/account" });
+  await app.register(offeringsRoutes, { prefix: "/offerings" });
+  await app.register(adminRoutes, { prefix: "/admin" });
+
+  // Build the vesting Merkle tree and verify its root before serving claims
+  await initVestingAllocations(app.log);
 
   const host = env.HOST ?? "0.0.0.0";
   const port = env.PORT ?? 8080;